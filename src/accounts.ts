@@ -1,6 +1,11 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
-import type { FeishuConfig, FeishuDomain, ResolvedFeishuAccount } from "./types.js";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "openclaw/plugin-sdk";
+import type {
+  FeishuAccountConfig,
+  FeishuConfig,
+  FeishuDomain,
+  ResolvedFeishuAccount,
+} from "./types.js";
 
 export function resolveFeishuCredentials(cfg?: FeishuConfig): {
   appId: string;
@@ -21,29 +26,92 @@ export function resolveFeishuCredentials(cfg?: FeishuConfig): {
   };
 }
 
+function listConfiguredAccountIds(cfg: ClawdbotConfig): string[] {
+  const accounts = (cfg.channels?.feishu as FeishuConfig | undefined)?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean);
+}
+
+function resolveAccountConfig(
+  cfg: ClawdbotConfig,
+  accountId: string,
+): FeishuAccountConfig | undefined {
+  const accounts = (cfg.channels?.feishu as FeishuConfig | undefined)?.accounts;
+  if (!accounts || typeof accounts !== "object") return undefined;
+  const direct = accounts[accountId];
+  if (direct) return direct;
+  const matchKey = Object.keys(accounts).find((key) => normalizeAccountId(key) === accountId);
+  return matchKey ? accounts[matchKey] : undefined;
+}
+
+/**
+ * Merge the top-level `channels.feishu` section with `channels.feishu.accounts.<id>`.
+ * Account fields win; anything the account leaves unset is inherited from the top level.
+ */
+function mergeFeishuAccountConfig(cfg: ClawdbotConfig, accountId: string): FeishuConfig {
+  const raw = (cfg.channels?.feishu ?? {}) as FeishuConfig;
+  const { accounts: _ignored, defaultAccount: _ignored2, ...base } = raw;
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  const overrides = Object.fromEntries(
+    Object.entries(account).filter(([, value]) => value !== undefined),
+  ) as FeishuAccountConfig;
+  return { ...base, ...overrides } as FeishuConfig;
+}
+
 export function resolveFeishuAccount(params: {
   cfg: ClawdbotConfig;
   accountId?: string | null;
 }): ResolvedFeishuAccount {
-  const feishuCfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  const enabled = feishuCfg?.enabled !== false;
-  const creds = resolveFeishuCredentials(feishuCfg);
+  const accountId = normalizeAccountId(
+    params.accountId ?? resolveDefaultFeishuAccountId(params.cfg),
+  );
+  const baseEnabled = (params.cfg.channels?.feishu as FeishuConfig | undefined)?.enabled !== false;
+  const merged = mergeFeishuAccountConfig(params.cfg, accountId);
+  const enabled = baseEnabled && merged.enabled !== false;
+  const creds = resolveFeishuCredentials(merged);
 
   return {
-    accountId: params.accountId?.trim() || DEFAULT_ACCOUNT_ID,
+    accountId,
+    name: merged.name?.trim() || undefined,
     enabled,
     configured: Boolean(creds),
     appId: creds?.appId,
     domain: creds?.domain ?? "feishu",
+    config: merged,
   };
 }
 
-export function listFeishuAccountIds(_cfg: ClawdbotConfig): string[] {
-  return [DEFAULT_ACCOUNT_ID];
+/**
+ * Resolve the merged config for an account, throwing if its credentials are missing.
+ * Used by the send/media helpers, which cannot do anything useful without a client.
+ */
+export function resolveFeishuAccountConfig(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string | null;
+}): FeishuConfig {
+  const account = resolveFeishuAccount(params);
+  if (!account.configured) {
+    throw new Error(`Feishu account "${account.accountId}" not configured`);
+  }
+  return account.config;
+}
+
+export function listFeishuAccountIds(cfg: ClawdbotConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg).map((id) => normalizeAccountId(id));
+  // Top-level credentials keep working as the default account alongside named accounts.
+  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  if (ids.length === 0 || (feishuCfg?.appId?.trim() && !ids.includes(DEFAULT_ACCOUNT_ID))) {
+    ids.push(DEFAULT_ACCOUNT_ID);
+  }
+  return [...new Set(ids)].sort((a, b) => a.localeCompare(b));
 }
 
-export function resolveDefaultFeishuAccountId(_cfg: ClawdbotConfig): string {
-  return DEFAULT_ACCOUNT_ID;
+export function resolveDefaultFeishuAccountId(cfg: ClawdbotConfig): string {
+  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  if (feishuCfg?.defaultAccount?.trim()) return normalizeAccountId(feishuCfg.defaultAccount);
+  const ids = listFeishuAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
 }
 
 export function listEnabledFeishuAccounts(cfg: ClawdbotConfig): ResolvedFeishuAccount[] {
@@ -0,0 +1,283 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The real plugin-sdk entry loads the whole host (every channel's SDK); these tests only
+// need the account and history helpers.
+vi.mock("openclaw/plugin-sdk", () => {
+  const historyOf = (params: { historyMap: Map<string, unknown[]>; historyKey: string }) =>
+    params.historyMap.get(params.historyKey) ?? [];
+  return {
+    DEFAULT_ACCOUNT_ID: "default",
+    DEFAULT_GROUP_HISTORY_LIMIT: 50,
+    normalizeAccountId: (value?: string) => value?.trim().toLowerCase() || "default",
+    recordPendingHistoryEntryIfEnabled: (params: {
+      historyMap: Map<string, unknown[]>;
+      historyKey: string;
+      entry?: unknown;
+      limit: number;
+    }) => {
+      if (!params.entry || params.limit <= 0) return [];
+      const history = [...historyOf(params), params.entry].slice(-params.limit);
+      params.historyMap.set(params.historyKey, history);
+      return history;
+    },
+    buildPendingHistoryContextFromMap: (params: { currentMessage: string }) => params.currentMessage,
+    clearHistoryEntriesIfEnabled: (params: { historyMap: Map<string, unknown[]>; historyKey: string }) => {
+      params.historyMap.set(params.historyKey, []);
+    },
+  };
+});
+
+vi.mock("./send.js", () => ({
+  getMessageFeishu: vi.fn(async () => null),
+  getMessageItemsFeishu: vi.fn(async () => []),
+  listMessagesFeishu: vi.fn(async () => ({ messages: [], total: 0 })),
+  sendMessageFeishu: vi.fn(async () => ({})),
+}));
+
+vi.mock("./reply-dispatcher.js", () => ({
+  createFeishuReplyDispatcher: () => ({ dispatcher: {}, replyOptions: {}, markDispatchIdle: () => {} }),
+}));
+
+import { handleFeishuMessage, parseFeishuMessageEvent, type FeishuMessageEvent } from "./bot.js";
+import { setFeishuRuntime } from "./runtime.js";
+import { getMessageFeishu, getMessageItemsFeishu, listMessagesFeishu } from "./send.js";
+
+const BOT_OPEN_ID = "ou_bot";
+
+function groupEvent(message: Partial<FeishuMessageEvent["message"]>): FeishuMessageEvent {
+  return {
+    sender: { sender_id: { open_id: "ou_alice", user_id: "alice" }, sender_type: "user" },
+    message: {
+      message_id: "om_1",
+      chat_id: "oc_group",
+      chat_type: "group",
+      message_type: "text",
+      content: JSON.stringify({ text: "hello" }),
+      ...message,
+    },
+  };
+}
+
+const mentionOf = (key: string, openId: string, name: string) => ({ key, id: { open_id: openId }, name });
+
+describe("parseFeishuMessageEvent mentions", () => {
+  it("treats a mention of the bot's open_id as a mention and strips it from the text", () => {
+    const ctx = parseFeishuMessageEvent(
+      groupEvent({
+        content: JSON.stringify({ text: "@_user_1 summarize this" }),
+        mentions: [mentionOf("@_user_1", BOT_OPEN_ID, "Bot")],
+      }),
+      BOT_OPEN_ID,
+    );
+    expect(ctx.mentionedBot).toBe(true);
+    expect(ctx.content).toBe("summarize this");
+  });
+
+  it("does not treat a mention of someone else as a mention of the bot", () => {
+    const ctx = parseFeishuMessageEvent(
+      groupEvent({
+        content: JSON.stringify({ text: "@_user_1 can you check?" }),
+        mentions: [mentionOf("@_user_1", "ou_bob", "Bob")],
+      }),
+      BOT_OPEN_ID,
+    );
+    expect(ctx.mentionedBot).toBe(false);
+    expect(ctx.content).toBe("@Bob (ou_bob) can you check?");
+  });
+
+  it("never counts a mention while the bot's open_id is unknown", () => {
+    const ctx = parseFeishuMessageEvent(
+      groupEvent({
+        content: JSON.stringify({ text: "@_user_1 hi" }),
+        mentions: [mentionOf("@_user_1", "ou_bob", "Bob")],
+      }),
+      undefined,
+    );
+    expect(ctx.mentionedBot).toBe(false);
+    expect(ctx.mentions).toEqual([{ key: "@_user_1", id: "ou_bob", name: "Bob", isBot: false }]);
+  });
+
+  it("drops only the bot's own post mention when another name starts with the bot's name", () => {
+    const ctx = parseFeishuMessageEvent(
+      groupEvent({
+        message_type: "post",
+        content: JSON.stringify({
+          content: [
+            [
+              { tag: "at", user_id: "@_user_1", user_name: "AI" },
+              { tag: "text", text: " please ask " },
+              { tag: "at", user_id: "@_user_2", user_name: "AI Team" },
+            ],
+          ],
+        }),
+        mentions: [mentionOf("@_user_1", BOT_OPEN_ID, "AI"), mentionOf("@_user_2", "ou_x", "AI Team")],
+      }),
+      BOT_OPEN_ID,
+    );
+    expect(ctx.mentionedBot).toBe(true);
+    expect(ctx.content).toBe("please ask @AI Team (ou_x)");
+  });
+
+  describe("@all", () => {
+    const textAll = groupEvent({
+      content: JSON.stringify({ text: "@_all standup in 5" }),
+      mentions: [{ key: "@_all", id: {}, name: "所有人" }],
+    });
+    const postAll = groupEvent({
+      message_type: "post",
+      content: JSON.stringify({ content: [[{ tag: "at", user_id: "all" }, { tag: "text", text: " standup" }]] }),
+    });
+
+    it("is not a mention by default", () => {
+      expect(parseFeishuMessageEvent(textAll, BOT_OPEN_ID).mentionedBot).toBe(false);
+      expect(parseFeishuMessageEvent(postAll, BOT_OPEN_ID).mentionedBot).toBe(false);
+    });
+
+    it("is a mention when mentionAll is enabled, even before the bot id is known", () => {
+      expect(parseFeishuMessageEvent(textAll, BOT_OPEN_ID, { mentionAll: true }).mentionedBot).toBe(true);
+      expect(parseFeishuMessageEvent(postAll, undefined, { mentionAll: true }).mentionedBot).toBe(true);
+    });
+
+    it("shows up as @all in the text", () => {
+      expect(parseFeishuMessageEvent(textAll, BOT_OPEN_ID).content).toBe("@all standup in 5");
+    });
+  });
+
+  describe("reply to the bot", () => {
+    const reply = groupEvent({
+      message_id: "om_2",
+      root_id: "om_bot_msg",
+      parent_id: "om_bot_msg",
+      content: JSON.stringify({ text: "thanks, one more thing" }),
+    });
+
+    it("is a mention when the parent is one of the bot's messages", () => {
+      const ctx = parseFeishuMessageEvent(reply, BOT_OPEN_ID, { replyToBot: true });
+      expect(ctx.mentionedBot).toBe(true);
+      expect(ctx.parentId).toBe("om_bot_msg");
+      expect(ctx.content).toBe("thanks, one more thing");
+    });
+
+    it("is not a mention when the parent is someone else's message", () => {
+      const ctx = parseFeishuMessageEvent(reply, BOT_OPEN_ID, { replyToBot: false });
+      expect(ctx.mentionedBot).toBe(false);
+      expect(ctx.parentId).toBe("om_bot_msg");
+    });
+  });
+});
+
+/** Host runtime that records what reached the agent instead of running it. */
+function createTestRuntime() {
+  const dispatched: Array<Record<string, unknown>> = [];
+  const runtime = {
+    system: { enqueueSystemEvent: () => {} },
+    channel: {
+      routing: {
+        resolveAgentRoute: (params: { accountId: string }) => ({
+          agentId: "main",
+          accountId: params.accountId,
+          sessionKey: "agent:main:feishu:group:oc_group",
+          mainSessionKey: "agent:main:main",
+        }),
+      },
+      commands: { shouldComputeCommandAuthorized: () => false },
+      text: { hasControlCommand: () => false },
+      reply: {
+        resolveEnvelopeFormatOptions: () => ({}),
+        formatAgentEnvelope: (params: { body: string }) => params.body,
+        finalizeInboundContext: (ctx: Record<string, unknown>) => ctx,
+        dispatchReplyFromConfig: async (params: { ctx: Record<string, unknown> }) => {
+          dispatched.push(params.ctx);
+          return { queuedFinal: false, counts: { final: 0 } };
+        },
+      },
+    },
+  };
+  setFeishuRuntime(runtime as never);
+  return dispatched;
+}
+
+const quietRuntime = { log: () => {}, error: () => {}, exit: () => {} } as never;
+
+describe("handleFeishuMessage", () => {
+  const cfg = { channels: { feishu: { requireMention: false } } } as never;
+
+  it("does not fetch chat history for a forwarded chat log", async () => {
+    const dispatched = createTestRuntime();
+    vi.mocked(getMessageItemsFeishu).mockResolvedValueOnce([
+      {
+        messageId: "om_child",
+        upperMessageId: "om_forward",
+        senderType: "app",
+        content: JSON.stringify({ text: "see the chat history, 聊天记录 attached" }),
+        contentType: "text",
+      },
+    ]);
+    vi.mocked(listMessagesFeishu).mockClear();
+
+    await handleFeishuMessage({
+      cfg,
+      event: groupEvent({ message_id: "om_forward", message_type: "merge_forward", content: "{}" }),
+      botOpenId: BOT_OPEN_ID,
+      runtime: quietRuntime,
+    });
+
+    expect(listMessagesFeishu).not.toHaveBeenCalled();
+    expect(dispatched).toHaveLength(1);
+    expect(dispatched[0].RawBody).toContain("[Forwarded chat history]");
+    expect(dispatched[0].RawBody).toContain("聊天记录 attached");
+  });
+
+  it("still fetches chat history when the user asks for it", async () => {
+    createTestRuntime();
+    vi.mocked(listMessagesFeishu).mockClear();
+
+    await handleFeishuMessage({
+      cfg,
+      event: groupEvent({ content: JSON.stringify({ text: "summarize the chat history, last 20 messages" }) }),
+      botOpenId: BOT_OPEN_ID,
+      runtime: quietRuntime,
+    });
+
+    expect(listMessagesFeishu).toHaveBeenCalledWith(expect.objectContaining({ chatId: "oc_group", count: 20 }));
+  });
+
+  describe("messages from apps", () => {
+    const appCfg = {
+      channels: { feishu: { appId: "cli_self", requireMention: false, botMessages: { policy: "allow" } } },
+    } as never;
+    // Some app senders arrive without an open_id; the message API still names their app.
+    const appEvent = (messageId: string): FeishuMessageEvent => ({
+      ...groupEvent({ message_id: messageId }),
+      sender: { sender_id: {}, sender_type: "app" },
+    });
+
+    it("drops the bot's own message when only the app id identifies it", async () => {
+      const dispatched = createTestRuntime();
+      vi.mocked(getMessageFeishu).mockResolvedValueOnce({ senderType: "app", senderId: "cli_self" } as never);
+
+      await handleFeishuMessage({
+        cfg: appCfg,
+        event: appEvent("om_own"),
+        botOpenId: BOT_OPEN_ID,
+        runtime: quietRuntime,
+      });
+
+      expect(dispatched).toHaveLength(0);
+    });
+
+    it("still handles another app's message", async () => {
+      const dispatched = createTestRuntime();
+      vi.mocked(getMessageFeishu).mockResolvedValueOnce({ senderType: "app", senderId: "cli_other" } as never);
+
+      await handleFeishuMessage({
+        cfg: appCfg,
+        event: appEvent("om_other"),
+        botOpenId: BOT_OPEN_ID,
+        runtime: quietRuntime,
+      });
+
+      expect(dispatched).toHaveLength(1);
+    });
+  });
+});
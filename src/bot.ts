@@ -6,25 +6,45 @@ import {
   DEFAULT_GROUP_HISTORY_LIMIT,
   type HistoryEntry,
 } from "openclaw/plugin-sdk";
-import type { FeishuConfig, FeishuMessageContext, FeishuMediaInfo } from "./types.js";
+import type { FeishuConfig, FeishuMention, FeishuMessageContext, FeishuMediaInfo } from "./types.js";
 import { getFeishuRuntime } from "./runtime.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import {
   resolveFeishuGroupConfig,
   resolveFeishuReplyPolicy,
-  resolveFeishuAllowlistMatch,
-  isFeishuGroupAllowed,
+  resolveFeishuConversationConfig,
+  checkFeishuSenderAccess,
+  resolveFeishuCommandAuthorizers,
 } from "./policy.js";
+import { readFeishuPairedUsers, requestFeishuPairing } from "./pairing.js";
+import { getFeishuChatRole, resolveFeishuExternalContext } from "./chat-info.js";
+import { claimFeishuBotTurn, isFeishuBotSenderAllowed, recordFeishuHumanTurn } from "./loop-guard.js";
 import { createFeishuReplyDispatcher } from "./reply-dispatcher.js";
-import { getMessageFeishu, listMessagesFeishu, type FeishuHistoryMessage } from "./send.js";
+import type { DebounceMode } from "./debounce.js";
+import {
+  getMessageFeishu,
+  getMessageItemsFeishu,
+  listMessagesFeishu,
+  sendMessageFeishu,
+  type FeishuHistoryMessage,
+  type FeishuMessageItem,
+} from "./send.js";
 import { downloadImageFeishu, downloadMessageResourceFeishu } from "./media.js";
+import { convertFeishuPostToMarkdown } from "./post.js";
+import { flattenFeishuCard } from "./card-content.js";
+import {
+  describeFeishuSpecialMessage,
+  isFeishuSpecialMessageType,
+  resolveFeishuSpecialMessage,
+} from "./message-types.js";
 
 // --- Sender name resolution (so the agent can distinguish who is speaking in group chats) ---
 // Cache display names by open_id to avoid an API call on every message.
 const SENDER_NAME_TTL_MS = 10 * 60 * 1000;
 const senderNameCache = new Map<string, { name: string; expireAt: number }>();
 
-async function resolveFeishuSenderName(params: {
+export async function resolveFeishuSenderName(params: {
   feishuCfg?: FeishuConfig;
   senderOpenId: string;
   log: (...args: any[]) => void;
@@ -79,6 +99,7 @@ export type FeishuMessageEvent = {
     message_id: string;
     root_id?: string;
     parent_id?: string;
+    thread_id?: string;
     chat_id: string;
     chat_type: "p2p" | "group";
     message_type: string;
@@ -98,6 +119,7 @@ export type FeishuMessageEvent = {
 
 export type FeishuBotAddedEvent = {
   chat_id: string;
+  name?: string;
   operator_id: {
     open_id?: string;
     user_id?: string;
@@ -107,7 +129,20 @@ export type FeishuBotAddedEvent = {
   operator_tenant_key?: string;
 };
 
-function parseMessageContent(content: string, messageType: string): string {
+export type FeishuMessageRecalledEvent = {
+  message_id: string;
+  chat_id: string;
+  recall_time?: string;
+  recall_type?: string;
+};
+
+const MERGE_FORWARD_PLACEHOLDER = "[Forwarded chat history]";
+
+/**
+ * Extract the plain text of a message. Post `at` elements whose key is in `mentionKeys`
+ * are kept as the key, like in text messages, so `applyFeishuMentions` resolves both.
+ */
+function parseMessageContent(content: string, messageType: string, mentionKeys: string[] = []): string {
   try {
     const parsed = JSON.parse(content);
     if (messageType === "text") {
@@ -115,14 +150,27 @@ function parseMessageContent(content: string, messageType: string): string {
     }
     if (messageType === "post") {
       // Extract text content from rich text post
-      const { textContent, imageKeys } = parsePostContent(content);
+      const { textContent, imageKeys, mediaKeys } = parsePostContent(content, mentionKeys);
       const trimmed = textContent?.trim() || "";
       const hasText = trimmed && trimmed !== "[富文本消息]";
       if (!hasText && imageKeys.length > 0) {
         return `<media:image>${imageKeys.length > 1 ? ` (${imageKeys.length} images)` : ""}`;
       }
+      if (!hasText && mediaKeys.length > 0) {
+        return `<media:video>${mediaKeys.length > 1 ? ` (${mediaKeys.length} videos)` : ""}`;
+      }
       return textContent;
     }
+    if (messageType === "interactive") {
+      return flattenFeishuCard(parsed) || "[卡片消息]";
+    }
+    if (messageType === "merge_forward") {
+      // The records themselves are fetched separately; see expandFeishuMergeForward.
+      return MERGE_FORWARD_PLACEHOLDER;
+    }
+    if (isFeishuSpecialMessageType(messageType)) {
+      return describeFeishuSpecialMessage(messageType, parsed).text;
+    }
     if (["image", "file", "audio", "video", "sticker"].includes(messageType)) {
       return inferPlaceholder(messageType);
     }
@@ -138,21 +186,65 @@ function parseMessageContent(content: string, messageType: string): string {
   }
 }
 
-function checkBotMentioned(event: FeishuMessageEvent, botOpenId?: string): boolean {
-  const mentions = event.message.mentions ?? [];
-  if (mentions.length === 0) return false;
-  if (!botOpenId) return mentions.length > 0;
-  return mentions.some((m) => m.id.open_id === botOpenId);
+const MENTION_ALL_KEY = "@_all";
+
+/** @all shows up as `@_all` in text and as an `at` element with user_id "all" in posts. */
+function isMentionAll(event: FeishuMessageEvent): boolean {
+  if ((event.message.mentions ?? []).some((m) => m.key === MENTION_ALL_KEY)) return true;
+  return /@_all(?!\w)|"user_id"\s*:\s*"all"/.test(event.message.content);
+}
+
+/**
+ * Whether the message is addressed to the bot:
+ * - an explicit mention of the bot's open_id;
+ * - @all, only when `mentionAll` is enabled;
+ * - a reply to one of the bot's own messages (`replyToBot`; the caller looks up the parent);
+ * - never when the bot's open_id isn't known yet, since any mention could be someone else.
+ */
+function checkBotMentioned(
+  event: FeishuMessageEvent,
+  botOpenId?: string,
+  opts: { mentionAll?: boolean; replyToBot?: boolean } = {},
+): boolean {
+  if (opts.replyToBot) return true;
+  if (opts.mentionAll && isMentionAll(event)) return true;
+  if (!botOpenId) return false;
+  return (event.message.mentions ?? []).some((m) => m.id.open_id === botOpenId);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches a mention key such as `@_user_1` without also matching `@_user_10`. */
+function mentionKeyPattern(key: string): RegExp {
+  return new RegExp(`${escapeRegExp(key)}(?!\\d)`, "g");
+}
+
+function resolveFeishuMentions(event: FeishuMessageEvent, botOpenId?: string): FeishuMention[] {
+  return (event.message.mentions ?? []).map((mention) => ({
+    key: mention.key,
+    id: mention.id.open_id || mention.id.user_id || "",
+    name: mention.name,
+    isBot: Boolean(botOpenId && mention.id.open_id === botOpenId),
+  }));
 }
 
-function stripBotMention(text: string, mentions?: FeishuMessageEvent["message"]["mentions"]): string {
-  if (!mentions || mentions.length === 0) return text;
-  let result = text;
+/**
+ * Swap mention keys for `@Name (open_id)` so the agent knows who is meant, and drop the
+ * mention of the bot itself.
+ */
+function applyFeishuMentions(text: string, mentions: FeishuMention[]): string {
+  let result = text.replace(/@_all(?!\w)/g, "@all");
   for (const mention of mentions) {
-    result = result.replace(new RegExp(`@${mention.name}\\s*`, "g"), "").trim();
-    result = result.replace(new RegExp(mention.key, "g"), "").trim();
+    if (mention.isBot) {
+      result = result.replace(new RegExp(`${mentionKeyPattern(mention.key).source}\\s*`, "g"), "");
+    } else {
+      const label = mention.id ? `@${mention.name} (${mention.id})` : `@${mention.name}`;
+      result = result.replace(mentionKeyPattern(mention.key), () => label);
+    }
   }
-  return result;
+  return result.trim();
 }
 
 /**
@@ -189,46 +281,23 @@ function parseMediaKeys(
 }
 
 /**
- * Parse post (rich text) content and extract embedded image keys.
- * Post structure: { title?: string, content: [[{ tag, text?, image_key?, ... }]] }
+ * Parse post (rich text) content into markdown and collect embedded media keys.
  */
-function parsePostContent(content: string): {
+function parsePostContent(
+  content: string,
+  mentionKeys: string[] = [],
+): {
   textContent: string;
   imageKeys: string[];
+  mediaKeys: string[];
 } {
   try {
-    const parsed = JSON.parse(content);
-    const title = parsed.title || "";
-    const contentBlocks = parsed.content || [];
-    let textContent = title ? `${title}\n\n` : "";
-    const imageKeys: string[] = [];
-
-    for (const paragraph of contentBlocks) {
-      if (Array.isArray(paragraph)) {
-        for (const element of paragraph) {
-          if (element.tag === "text") {
-            textContent += element.text || "";
-          } else if (element.tag === "a") {
-            // Link: show text or href
-            textContent += element.text || element.href || "";
-          } else if (element.tag === "at") {
-            // Mention: @username
-            textContent += `@${element.user_name || element.user_id || ""}`;
-          } else if (element.tag === "img" && element.image_key) {
-            // Embedded image
-            imageKeys.push(element.image_key);
-          }
-        }
-        textContent += "\n";
-      }
-    }
-
-    return {
-      textContent: textContent.trim() || "[富文本消息]",
-      imageKeys,
-    };
+    const { markdown, imageKeys, mediaKeys } = convertFeishuPostToMarkdown(content, {
+      renderMention: (userId) => (mentionKeys.includes(userId) ? userId : undefined),
+    });
+    return { textContent: markdown || "[富文本消息]", imageKeys, mediaKeys };
   } catch {
-    return { textContent: "[富文本消息]", imageKeys: [] };
+    return { textContent: "[富文本消息]", imageKeys: [], mediaKeys: [] };
   }
 }
 
@@ -258,13 +327,14 @@ function inferPlaceholder(messageType: string): string {
  */
 async function resolveFeishuMediaList(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   messageType: string;
   content: string;
   maxBytes: number;
   log?: (msg: string) => void;
 }): Promise<FeishuMediaInfo[]> {
-  const { cfg, messageId, messageType, content, maxBytes, log } = params;
+  const { cfg, accountId, messageId, messageType, content, maxBytes, log } = params;
 
   // Only process media message types (including post for embedded images)
   const mediaTypes = ["image", "file", "audio", "video", "sticker", "post"];
@@ -277,21 +347,26 @@ async function resolveFeishuMediaList(params: {
 
   // Handle post (rich text) messages with embedded images
   if (messageType === "post") {
-    const { imageKeys } = parsePostContent(content);
-    if (imageKeys.length === 0) {
+    const { imageKeys, mediaKeys } = parsePostContent(content);
+    const embedded = [
+      ...imageKeys.map((key) => ({ key, type: "image" as const, kind: "image", placeholder: "<media:image>" })),
+      ...mediaKeys.map((key) => ({ key, type: "file" as const, kind: "video", placeholder: "<media:video>" })),
+    ];
+    if (embedded.length === 0) {
       return [];
     }
 
-    log?.(`feishu: post message contains ${imageKeys.length} embedded image(s)`);
+    log?.(`feishu: post message contains ${imageKeys.length} embedded image(s), ${mediaKeys.length} video(s)`);
 
-    for (const imageKey of imageKeys) {
+    for (const { key, type, kind, placeholder } of embedded) {
       try {
-        // Embedded images in post use messageResource API with image_key as file_key
+        // Embedded media in post use messageResource API with the key as file_key
         const result = await downloadMessageResourceFeishu({
           cfg,
+          accountId,
           messageId,
-          fileKey: imageKey,
-          type: "image",
+          fileKey: key,
+          type,
         });
 
         let contentType = result.contentType;
@@ -309,12 +384,12 @@ async function resolveFeishuMediaList(params: {
         out.push({
           path: saved.path,
           contentType: saved.contentType,
-          placeholder: "<media:image>",
+          placeholder,
         });
 
-        log?.(`feishu: downloaded embedded image ${imageKey}, saved to ${saved.path}`);
+        log?.(`feishu: downloaded embedded ${kind} ${key}, saved to ${saved.path}`);
       } catch (err) {
-        log?.(`feishu: failed to download embedded image ${imageKey}: ${String(err)}`);
+        log?.(`feishu: failed to download embedded ${kind} ${key}: ${String(err)}`);
       }
     }
 
@@ -342,6 +417,7 @@ async function resolveFeishuMediaList(params: {
     const resourceType = messageType === "image" ? "image" : "file";
     const result = await downloadMessageResourceFeishu({
       cfg,
+      accountId,
       messageId,
       fileKey,
       type: resourceType,
@@ -378,12 +454,199 @@ async function resolveFeishuMediaList(params: {
   return out;
 }
 
+const MERGE_FORWARD_DEFAULT_MAX_DEPTH = 3;
+const MERGE_FORWARD_DEFAULT_MAX_MESSAGES = 50;
+
+type MergeForwardExpansion = {
+  /** Quoted transcript, nested forwards one quote level deeper. */
+  transcript: string;
+  /** Forwarded messages that carry media, for resolveFeishuMediaList. */
+  media: Array<{ messageId: string; messageType: string; content: string }>;
+};
+
+function formatForwardTime(createTime?: number): string {
+  if (!createTime) return "";
+  const time = new Date(createTime).toLocaleString("zh-CN", {
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `[${time}] `;
+}
+
 /**
- * Build media payload for inbound context.
+ * Fetch the records inside a merge_forward message and render them as a quoted transcript.
+ * Nested forwards are expanded up to `maxDepth`; at most `maxMessages` records are shown.
+ */
+async function expandFeishuMergeForward(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  feishuCfg?: FeishuConfig;
+  messageId: string;
+  log: (...args: any[]) => void;
+}): Promise<MergeForwardExpansion> {
+  const { cfg, accountId, feishuCfg, messageId, log } = params;
+  const maxDepth = feishuCfg?.mergeForward?.maxDepth ?? MERGE_FORWARD_DEFAULT_MAX_DEPTH;
+  const maxMessages = feishuCfg?.mergeForward?.maxMessages ?? MERGE_FORWARD_DEFAULT_MAX_MESSAGES;
+
+  const childrenOf = new Map<string, FeishuMessageItem[]>();
+  const loaded = new Set<string>();
+  const load = async (forwardId: string) => {
+    if (loaded.has(forwardId)) return;
+    loaded.add(forwardId);
+    const items = await getMessageItemsFeishu({ cfg, accountId, messageId: forwardId });
+    for (const item of items) {
+      if (!item.upperMessageId || item.deleted) continue;
+      const siblings = childrenOf.get(item.upperMessageId) ?? [];
+      if (!siblings.some((sibling) => sibling.messageId === item.messageId)) siblings.push(item);
+      childrenOf.set(item.upperMessageId, siblings);
+    }
+  };
+
+  const media: MergeForwardExpansion["media"] = [];
+  let shown = 0;
+  let omitted = 0;
+
+  const render = async (forwardId: string, depth: number): Promise<string[]> => {
+    // Nested forwards may come back with the parent or need their own lookup.
+    if (!childrenOf.has(forwardId)) await load(forwardId);
+    const children = [...(childrenOf.get(forwardId) ?? [])].sort(
+      (a, b) => (a.createTime ?? 0) - (b.createTime ?? 0),
+    );
+
+    const lines: string[] = [];
+    for (const child of children) {
+      if (shown >= maxMessages) {
+        omitted += 1;
+        continue;
+      }
+      shown += 1;
+
+      let sender = child.senderId ?? "unknown";
+      if (child.senderType === "app") {
+        sender = "[Bot]";
+      } else if (child.senderIdType === "open_id" && child.senderId) {
+        sender = (await resolveFeishuSenderName({ feishuCfg, senderOpenId: child.senderId, log })) ?? sender;
+      }
+
+      let body: string[];
+      if (child.contentType === "merge_forward") {
+        body =
+          depth < maxDepth
+            ? [MERGE_FORWARD_PLACEHOLDER, ...(await render(child.messageId, depth + 1)).map((line) => `> ${line}`)]
+            : [`${MERGE_FORWARD_PLACEHOLDER} (not expanded)`];
+      } else {
+        body = parseMessageContent(child.content, child.contentType).split("\n");
+        media.push({ messageId: child.messageId, messageType: child.contentType, content: child.content });
+      }
+
+      const [first = "", ...rest] = body;
+      lines.push(`${formatForwardTime(child.createTime)}${sender}: ${first}`, ...rest);
+    }
+    return lines;
+  };
+
+  const lines = await render(messageId, 1);
+  if (omitted > 0) lines.push(`... ${omitted} more forwarded message(s) omitted`);
+  log(`feishu: expanded merge_forward ${messageId}: ${shown} message(s), ${omitted} omitted`);
+
+  return {
+    transcript: [MERGE_FORWARD_PLACEHOLDER, ...lines.map((line) => `> ${line}`)].join("\n"),
+    media,
+  };
+}
+
+const QUOTED_DEFAULT_MAX_DEPTH = 1;
+
+type QuotedContext = {
+  /** Quote block, oldest message of the reply chain first. */
+  text: string;
+  media: FeishuMediaInfo[];
+};
+
+/**
+ * Fetch the message being replied to, and its own parents up to `maxDepth`, parsed like
+ * inbound messages and labelled with sender names. Media in them is downloaded too.
+ */
+async function resolveFeishuQuotedContext(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  feishuCfg?: FeishuConfig;
+  parentId: string;
+  maxBytes: number;
+  log: (...args: any[]) => void;
+}): Promise<QuotedContext | null> {
+  const { cfg, accountId, feishuCfg, parentId, maxBytes, log } = params;
+  const maxDepth = feishuCfg?.quotedContext?.maxDepth ?? QUOTED_DEFAULT_MAX_DEPTH;
+  const includeMedia = feishuCfg?.quotedContext?.media !== false;
+
+  const chain: Array<{ sender: string; body: string }> = [];
+  const media: FeishuMediaInfo[] = [];
+  const seen = new Set<string>();
+  let messageId: string | undefined = parentId;
+
+  while (messageId && chain.length < maxDepth && !seen.has(messageId)) {
+    seen.add(messageId);
+    let item: FeishuMessageItem | undefined;
+    try {
+      const items = await getMessageItemsFeishu({ cfg, accountId, messageId });
+      // A merge_forward comes back followed by its records; pick the message itself.
+      item = items.find((entry) => entry.messageId === messageId) ?? items[0];
+    } catch (err) {
+      log(`feishu: failed to fetch quoted message ${messageId}: ${String(err)}`);
+    }
+    if (!item || item.deleted) break;
+
+    let sender = item.senderId ?? "unknown";
+    if (item.senderType === "app") {
+      sender = "[Bot]";
+    } else if (item.senderIdType === "open_id" && item.senderId) {
+      sender = (await resolveFeishuSenderName({ feishuCfg, senderOpenId: item.senderId, log })) ?? sender;
+    }
+
+    const mentions = (item.mentions ?? []).map((mention) => ({ ...mention, isBot: false }));
+    const rawBody = parseMessageContent(
+      item.content,
+      item.contentType,
+      mentions.map((mention) => mention.key),
+    );
+    const body = applyFeishuMentions(rawBody, mentions);
+    chain.unshift({ sender, body });
+
+    if (includeMedia) {
+      media.push(
+        ...(await resolveFeishuMediaList({
+          cfg,
+          accountId,
+          messageId: item.messageId,
+          messageType: item.contentType,
+          content: item.content,
+          maxBytes,
+          log,
+        })),
+      );
+    }
+    messageId = item.parentId;
+  }
+
+  if (chain.length === 0) return null;
+  log(`feishu: resolved ${chain.length} quoted message(s) with ${media.length} media file(s)`);
+
+  const lines = chain.flatMap(({ sender, body }) => {
+    const [first = "", ...rest] = body.split("\n");
+    return [`${sender}: ${first}`, ...rest];
+  });
+  const header = chain.length > 1 ? "[Replying to (reply chain, oldest first)]" : "[Replying to]";
+  return { text: [header, ...lines.map((line) => `> ${line}`)].join("\n"), media };
+}
+
+/**
+ * Build media payload for inbound context from the media of every message in the turn, in order.
  * Similar to Discord's buildDiscordMediaPayload().
  */
 function buildFeishuMediaPayload(
-  mediaList: FeishuMediaInfo[],
+  ...mediaLists: FeishuMediaInfo[][]
 ): {
   MediaPath?: string;
   MediaType?: string;
@@ -392,6 +655,7 @@ function buildFeishuMediaPayload(
   MediaUrls?: string[];
   MediaTypes?: string[];
 } {
+  const mediaList = mediaLists.flat();
   const first = mediaList[0];
   const mediaPaths = mediaList.map((media) => media.path);
   const mediaTypes = mediaList.map((media) => media.contentType).filter(Boolean) as string[];
@@ -473,11 +737,12 @@ export type ChatHistoryResult = {
  */
 export async function fetchChatHistoryForAgent(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   chatId: string;
   requestContent: string;
   runtime?: RuntimeEnv;
 }): Promise<ChatHistoryResult> {
-  const { cfg, chatId, requestContent, runtime } = params;
+  const { cfg, accountId, chatId, requestContent, runtime } = params;
   const log = runtime?.log ?? console.log;
 
   const count = extractHistoryCount(requestContent);
@@ -485,6 +750,7 @@ export async function fetchChatHistoryForAgent(params: {
 
   const result = await listMessagesFeishu({
     cfg,
+    accountId,
     chatId,
     count,
     sortType: "ByCreateTimeDesc",
@@ -519,10 +785,16 @@ export async function fetchChatHistoryForAgent(params: {
 export function parseFeishuMessageEvent(
   event: FeishuMessageEvent,
   botOpenId?: string,
+  opts: { mentionAll?: boolean; replyToBot?: boolean } = {},
 ): FeishuMessageContext {
-  const rawContent = parseMessageContent(event.message.content, event.message.message_type);
-  const mentionedBot = checkBotMentioned(event, botOpenId);
-  const content = stripBotMention(rawContent, event.message.mentions);
+  const mentions = resolveFeishuMentions(event, botOpenId);
+  const rawContent = parseMessageContent(
+    event.message.content,
+    event.message.message_type,
+    mentions.map((mention) => mention.key),
+  );
+  const mentionedBot = checkBotMentioned(event, botOpenId, opts);
+  const content = applyFeishuMentions(rawContent, mentions);
 
   return {
     chatId: event.message.chat_id,
@@ -531,113 +803,317 @@ export function parseFeishuMessageEvent(
     senderOpenId: event.sender.sender_id.open_id || "",
     chatType: event.message.chat_type,
     mentionedBot,
+    mentions,
     rootId: event.message.root_id || undefined,
     parentId: event.message.parent_id || undefined,
+    threadId: event.message.thread_id || undefined,
     content,
     contentType: event.message.message_type,
   };
 }
 
+/**
+ * How a message enters its sender's debounce window. A mention of the bot closes the window
+ * with the mention in it. A command is flushed ahead of the window and runs alone, since the
+ * host only recognises a command that is the whole message. Anything else waits.
+ */
+export function resolveFeishuDebounceMode(params: {
+  cfg: ClawdbotConfig;
+  feishuCfg: FeishuConfig;
+  event: FeishuMessageEvent;
+  botOpenId?: string;
+}): DebounceMode {
+  const { cfg, feishuCfg, event, botOpenId } = params;
+  const groupConfig =
+    event.message.chat_type === "group"
+      ? resolveFeishuGroupConfig({ cfg: feishuCfg, groupId: event.message.chat_id })
+      : undefined;
+  const mentionAll = groupConfig?.mentionAll ?? feishuCfg?.mentionAll ?? false;
+  const ctx = parseFeishuMessageEvent(event, botOpenId, { mentionAll });
+  if (getFeishuRuntime().channel.text.hasControlCommand(ctx.content, cfg)) return "alone";
+  return ctx.mentionedBot ? "flush" : "wait";
+}
+
+/**
+ * Whether a newer queued message may join an older one as a single turn, so a burst that
+ * overflows the chat queue still reaches the agent together. Only messages from the same
+ * sender in the same thread are combined.
+ */
+export function canMergeFeishuMessageEvents(previous: FeishuMessageEvent, next: FeishuMessageEvent): boolean {
+  const sameSender = previous.sender.sender_id.open_id === next.sender.sender_id.open_id;
+  const sameThread =
+    (previous.message.root_id || "") === (next.message.root_id || "") &&
+    (previous.message.thread_id || "") === (next.message.thread_id || "");
+  return sameSender && sameThread;
+}
+
+const COMMAND_NOT_ALLOWED_TEXT =
+  "Sorry, you don't have permission to run commands here. Ask a group owner or manager, or the bot's admin.";
+
+/** Whether the sender may run host commands; see `resolveFeishuCommandAuthorizers`. */
+async function resolveFeishuCommandAuthorized(params: {
+  cfg: ClawdbotConfig;
+  feishuCfg: FeishuConfig;
+  accountId: string;
+  isGroup: boolean;
+  chatId: string;
+  senderOpenId: string;
+  senderName?: string;
+  log: (...args: any[]) => void;
+}): Promise<boolean> {
+  const { cfg, feishuCfg, accountId, isGroup, chatId, senderOpenId, senderName, log } = params;
+
+  let chatRole: "owner" | "manager" | "member" | undefined;
+  if (isGroup) {
+    try {
+      chatRole = await getFeishuChatRole(feishuCfg, accountId, chatId, senderOpenId);
+    } catch (err) {
+      log(`feishu: failed to look up roles in chat ${chatId}: ${String(err)}`);
+    }
+  }
+  const storeAllowFrom =
+    (feishuCfg?.dmPolicy ?? "pairing") === "pairing" ? await readFeishuPairedUsers(accountId) : undefined;
+
+  return getFeishuRuntime().channel.commands.resolveCommandAuthorizedFromAuthorizers({
+    useAccessGroups: cfg.commands?.useAccessGroups !== false,
+    authorizers: resolveFeishuCommandAuthorizers({
+      cfg: feishuCfg,
+      senderOpenId,
+      senderName,
+      storeAllowFrom,
+      chatRole,
+    }),
+  });
+}
+
 export async function handleFeishuMessage(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   event: FeishuMessageEvent;
   botOpenId?: string;
   runtime?: RuntimeEnv;
   chatHistories?: Map<string, HistoryEntry[]>;
+  /** Aborted when the user recalls the message; stops the agent run and removes partial replies. */
+  abortSignal?: AbortSignal;
+  /**
+   * Earlier messages from the same sender that the inbound debounce or a queue overflow merge
+   * folded into this turn, oldest first. `event` is the newest one and is what the bot replies to.
+   */
+  burst?: FeishuMessageEvent[];
 }): Promise<void> {
-  const { cfg, event, botOpenId, runtime, chatHistories } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  const { cfg, event, botOpenId, runtime, chatHistories, abortSignal } = params;
+  const burst = params.burst ?? [];
+  const account = resolveFeishuAccount({ cfg, accountId: params.accountId });
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
 
-  let ctx = parseFeishuMessageEvent(event, botOpenId);
-  const isGroup = ctx.chatType === "group";
+  const isGroup = event.message.chat_type === "group";
+  const groupConfig = isGroup
+    ? resolveFeishuGroupConfig({ cfg: feishuCfg, groupId: event.message.chat_id })
+    : undefined;
+  const mentionAll = groupConfig?.mentionAll ?? feishuCfg?.mentionAll ?? false;
+  let ctx = parseFeishuMessageEvent(event, botOpenId, { mentionAll });
+  const burstCtxs = burst.map((item) => parseFeishuMessageEvent(item, botOpenId, { mentionAll }));
+  const burstTexts = burstCtxs.map((item) => item.content);
+  // A mention anywhere in the turn addresses the bot.
+  if (burstCtxs.length > 0) {
+    ctx = {
+      ...ctx,
+      mentionedBot: ctx.mentionedBot || burstCtxs.some((item) => item.mentionedBot),
+      mentions: [...burstCtxs.flatMap((item) => item.mentions), ...ctx.mentions],
+    };
+  }
+  const withBurst = (content: string) => [...burstTexts, content].join("\n");
+
+  // Thread replies, and every post in a topic-mode group, carry a thread_id. A thread is
+  // identified by its root message; a post that opens a topic is its own root.
+  const threadsCfg = { ...feishuCfg?.threads, ...groupConfig?.threads };
+  const threadRootId = ctx.threadId ? (ctx.rootId ?? ctx.messageId) : undefined;
+  const threadSessions = Boolean(threadRootId) && threadsCfg.sessions === true;
+  const historyKey = isGroup ? (threadSessions ? `${ctx.chatId}:${threadRootId}` : ctx.chatId) : undefined;
+
+  // Never handle our own messages, whatever the bot policy says.
+  if (botOpenId && ctx.senderOpenId === botOpenId) {
+    log(`feishu: ignoring own message ${ctx.messageId}`);
+    return;
+  }
+  const fromBot = event.sender.sender_type === "app";
+  if (fromBot) {
+    const { open_id, user_id, union_id } = event.sender.sender_id;
+    // The message API reports app senders by app id. Looked up at most once per message.
+    let senderAppId: Promise<string | undefined> | undefined;
+    const resolveSenderAppId = () => {
+      senderAppId ??= getMessageFeishu({ cfg, accountId, messageId: ctx.messageId }).then((message) =>
+        message?.senderType === "app" ? message.senderId : undefined,
+      );
+      return senderAppId;
+    };
+    // Without an open_id on either side, only the app id tells our own messages apart.
+    if (feishuCfg.appId && (!botOpenId || !open_id)) {
+      const appId = await resolveSenderAppId().catch(() => undefined);
+      if (appId === feishuCfg.appId) {
+        log(`feishu: ignoring own message ${ctx.messageId}`);
+        return;
+      }
+    }
+    const allowed = await isFeishuBotSenderAllowed(
+      feishuCfg,
+      [open_id, user_id, union_id].filter(Boolean),
+      resolveSenderAppId,
+    );
+    if (!allowed) {
+      log(`feishu: ignoring message from bot ${ctx.senderOpenId} in ${ctx.chatId}`);
+      return;
+    }
+  } else {
+    recordFeishuHumanTurn(accountId, ctx.chatId);
+  }
 
   // Resolve sender display name (best-effort) so the agent can attribute messages correctly.
-  const senderName = await resolveFeishuSenderName({
-    feishuCfg,
-    senderOpenId: ctx.senderOpenId,
-    log,
-  });
+  // Bots aren't contacts, so there's nothing to look up for them.
+  const senderName = fromBot
+    ? undefined
+    : await resolveFeishuSenderName({
+        feishuCfg,
+        senderOpenId: ctx.senderOpenId,
+        log,
+      });
   if (senderName) ctx = { ...ctx, senderName };
 
-  log(`feishu: received message from ${ctx.senderOpenId} in ${ctx.chatId} (${ctx.chatType}) contentType=${ctx.contentType}`);
+  log(
+    `feishu: received message from ${ctx.senderOpenId} in ${ctx.chatId} (${ctx.chatType}) contentType=${ctx.contentType}` +
+      (burst.length > 0 ? ` with ${burst.length} earlier message(s)` : ""),
+  );
 
   const historyLimit = Math.max(
     0,
     feishuCfg?.historyLimit ?? cfg.messages?.groupChat?.historyLimit ?? DEFAULT_GROUP_HISTORY_LIMIT,
   );
 
-  if (isGroup) {
-    const groupPolicy = feishuCfg?.groupPolicy ?? "open";
-    const groupAllowFrom = feishuCfg?.groupAllowFrom ?? [];
-    const groupConfig = resolveFeishuGroupConfig({ cfg: feishuCfg, groupId: ctx.chatId });
-
-    // Check if this GROUP is allowed (groupAllowFrom contains group IDs, not user IDs)
-    const allowed = isFeishuGroupAllowed({
-      groupPolicy,
-      allowFrom: groupAllowFrom,
-      senderId: ctx.chatId,  // Check group ID, not sender ID
-      senderName: undefined,
+  const recordPendingHistory = () => {
+    if (!chatHistories || !historyKey) return;
+    recordPendingHistoryEntryIfEnabled({
+      historyMap: chatHistories,
+      historyKey,
+      limit: historyLimit,
+      entry: {
+        sender: ctx.senderOpenId,
+        body: `${ctx.senderName ?? ctx.senderOpenId}: ${withBurst(ctx.content)}`,
+        timestamp: Date.now(),
+        messageId: ctx.messageId,
+      },
     });
+  };
 
-    if (!allowed) {
-      log(`feishu: group ${ctx.chatId} not in allowlist`);
-      return;
-    }
+  const { chatExternal, senderExternal } = await resolveFeishuExternalContext({
+    feishuCfg,
+    accountId,
+    isGroup,
+    chatId: ctx.chatId,
+    senderOpenId: ctx.senderOpenId,
+    senderTenantKey: event.sender.tenant_key,
+    log,
+  });
 
-    // Additional sender-level allowlist check if group has specific allowFrom config
-    const senderAllowFrom = groupConfig?.allowFrom ?? [];
-    if (senderAllowFrom.length > 0) {
-      const senderAllowed = isFeishuGroupAllowed({
-        groupPolicy: "allowlist",
-        allowFrom: senderAllowFrom,
-        senderId: ctx.senderOpenId,
-        senderName: ctx.senderName,
-      });
-      if (!senderAllowed) {
-        log(`feishu: sender ${ctx.senderOpenId} not in group ${ctx.chatId} allowlist`);
-        return;
+  const pairingDm = !isGroup && (feishuCfg?.dmPolicy ?? "pairing") === "pairing";
+  const access = checkFeishuSenderAccess({
+    cfg: feishuCfg,
+    isGroup,
+    chatId: ctx.chatId,
+    senderOpenId: ctx.senderOpenId,
+    senderName: ctx.senderName,
+    storeAllowFrom: pairingDm ? await readFeishuPairedUsers(accountId) : undefined,
+    chatExternal,
+    senderExternal,
+  });
+  if ("reason" in access) {
+    log(`feishu: ${access.reason}`);
+    // Unpaired DM senders get a code; their messages are dropped until it's approved.
+    if (access.pairable) {
+      try {
+        const pairingText = await requestFeishuPairing({
+          accountId,
+          openId: ctx.senderOpenId,
+          senderName: ctx.senderName,
+        });
+        if (pairingText) {
+          await sendMessageFeishu({ cfg, accountId, to: ctx.chatId, text: pairingText });
+          log(`feishu: sent pairing code to ${ctx.senderOpenId}`);
+        }
+      } catch (err) {
+        error(`feishu: pairing request for ${ctx.senderOpenId} failed: ${String(err)}`);
       }
     }
+    return;
+  }
+  if (access.readonly) {
+    log(`feishu: external group ${ctx.chatId} is read-only, recording to history`);
+    recordPendingHistory();
+    return;
+  }
 
+  if (isGroup) {
     const { requireMention } = resolveFeishuReplyPolicy({
       isDirectMessage: false,
       globalConfig: feishuCfg,
       groupConfig,
     });
 
+    // Replying to one of the bot's messages addresses the bot as much as a mention does.
+    if (requireMention && !ctx.mentionedBot && ctx.parentId) {
+      const parent = await getMessageFeishu({ cfg, accountId, messageId: ctx.parentId });
+      const replyToBot = parent?.senderType === "app" && parent.senderId === feishuCfg.appId;
+      ctx = { ...ctx, mentionedBot: checkBotMentioned(event, botOpenId, { mentionAll, replyToBot }) };
+    }
+
     if (requireMention && !ctx.mentionedBot) {
       log(`feishu: message in group ${ctx.chatId} did not mention bot, recording to history`);
-      if (chatHistories) {
-        recordPendingHistoryEntryIfEnabled({
-          historyMap: chatHistories,
-          historyKey: ctx.chatId,
-          limit: historyLimit,
-          entry: {
-            sender: ctx.senderOpenId,
-            body: `${ctx.senderName ?? ctx.senderOpenId}: ${ctx.content}`,
-            timestamp: Date.now(),
-            messageId: ctx.messageId,
-          },
-        });
-      }
+      recordPendingHistory();
       return;
     }
-  } else {
-    const dmPolicy = feishuCfg?.dmPolicy ?? "pairing";
-    const allowFrom = feishuCfg?.allowFrom ?? [];
+  }
 
-    if (dmPolicy === "allowlist") {
-      const match = resolveFeishuAllowlistMatch({
-        allowFrom,
-        senderId: ctx.senderOpenId,
+  // Checked last, so only turns the bot would actually answer count against the limits.
+  if (fromBot) {
+    const turn = claimFeishuBotTurn({ cfg: feishuCfg, accountId, chatId: ctx.chatId });
+    if ("reason" in turn) {
+      log(`feishu: not answering bot ${ctx.senderOpenId}: ${turn.reason}`);
+      return;
+    }
+  }
+
+  const replyInThread = Boolean(threadRootId) && threadsCfg.replyInThread !== false;
+
+  // Only worked out for messages that look like commands; the chat role lookup isn't free.
+  const commandAuthorized = getFeishuRuntime().channel.commands.shouldComputeCommandAuthorized(ctx.content, cfg)
+    ? await resolveFeishuCommandAuthorized({
+        cfg,
+        feishuCfg,
+        accountId,
+        isGroup,
+        chatId: ctx.chatId,
+        senderOpenId: ctx.senderOpenId,
+        senderName: ctx.senderName,
+        log,
+      })
+    : false;
+  if (!commandAuthorized && getFeishuRuntime().channel.text.hasControlCommand(ctx.content, cfg)) {
+    log(`feishu: ${ctx.senderOpenId} may not run commands in ${ctx.chatId}`);
+    try {
+      await sendMessageFeishu({
+        cfg,
+        accountId,
+        to: ctx.chatId,
+        text: COMMAND_NOT_ALLOWED_TEXT,
+        replyToMessageId: ctx.messageId,
+        replyInThread,
       });
-      if (!match.allowed) {
-        log(`feishu: sender ${ctx.senderOpenId} not in DM allowlist`);
-        return;
-      }
+    } catch (err) {
+      error(`feishu: failed to refuse command from ${ctx.senderOpenId}: ${String(err)}`);
     }
+    return;
   }
 
   try {
@@ -651,19 +1127,24 @@ export async function handleFeishuMessage(params: {
     const route = core.channel.routing.resolveAgentRoute({
       cfg,
       channel: "feishu",
+      accountId,
       peer: {
         kind: isGroup ? "group" : "dm",
         id: isGroup ? ctx.chatId : ctx.senderOpenId,
       },
     });
 
-    const preview = ctx.content.replace(/\s+/g, " ").slice(0, 160);
+    // Per-thread sessions route on the chat (so bindings still match) and key the session
+    // by chat + thread root.
+    const sessionKey = threadSessions ? `${route.sessionKey}:thread:${threadRootId}` : route.sessionKey;
+
+    const preview = withBurst(ctx.content).replace(/\s+/g, " ").slice(0, 160);
     const inboundLabel = isGroup
       ? `Feishu message in group ${ctx.chatId}`
       : `Feishu DM from ${ctx.senderOpenId}`;
 
     core.system.enqueueSystemEvent(`${inboundLabel}: ${preview}`, {
-      sessionKey: route.sessionKey,
+      sessionKey,
       contextKey: `feishu:message:${ctx.chatId}:${ctx.messageId}`,
     });
 
@@ -671,45 +1152,114 @@ export async function handleFeishuMessage(params: {
     const mediaMaxBytes = (feishuCfg?.mediaMaxMb ?? 30) * 1024 * 1024; // 30MB default
     const mediaList = await resolveFeishuMediaList({
       cfg,
+      accountId,
       messageId: ctx.messageId,
       messageType: event.message.message_type,
       content: event.message.content,
       maxBytes: mediaMaxBytes,
       log,
     });
-    const mediaPayload = buildFeishuMediaPayload(mediaList);
 
-    // Fetch quoted/replied message content if parentId exists
-    let quotedContent: string | undefined;
-    if (ctx.parentId) {
+    // Earlier messages of a debounced burst bring their own media.
+    const burstMedia: FeishuMediaInfo[] = [];
+    for (const item of burst) {
+      burstMedia.push(
+        ...(await resolveFeishuMediaList({
+          cfg,
+          accountId,
+          messageId: item.message.message_id,
+          messageType: item.message.message_type,
+          content: item.message.content,
+          maxBytes: mediaMaxBytes,
+          log,
+        })),
+      );
+    }
+
+    // Decided on the user's own words, before a forwarded transcript or shared card replaces
+    // them: forwarded chat logs routinely mention "chat history" themselves.
+    const historyRequest =
+      isGroup && event.message.message_type !== "merge_forward" && isHistoryRequest(ctx.content)
+        ? ctx.content
+        : undefined;
+
+    // Expand forwarded chat records into a transcript; their media joins the message's own.
+    if (event.message.message_type === "merge_forward") {
       try {
-        const quotedMsg = await getMessageFeishu({ cfg, messageId: ctx.parentId });
-        if (quotedMsg) {
-          quotedContent = quotedMsg.content;
-          log(`feishu: fetched quoted message: ${quotedContent?.slice(0, 100)}`);
+        const forwarded = await expandFeishuMergeForward({
+          cfg,
+          accountId,
+          feishuCfg,
+          messageId: ctx.messageId,
+          log,
+        });
+        ctx = { ...ctx, content: forwarded.transcript };
+        for (const item of forwarded.media) {
+          mediaList.push(
+            ...(await resolveFeishuMediaList({
+              cfg,
+              accountId,
+              messageId: item.messageId,
+              messageType: item.messageType,
+              content: item.content,
+              maxBytes: mediaMaxBytes,
+              log,
+            })),
+          );
         }
       } catch (err) {
-        log(`feishu: failed to fetch quoted message: ${String(err)}`);
+        log(`feishu: failed to expand forwarded messages: ${String(err)}`);
       }
     }
 
+    // Shared chats/users, locations, tasks etc.: readable text plus structured fields.
+    let specialContext: Record<string, unknown> = {};
+    if (isFeishuSpecialMessageType(event.message.message_type)) {
+      const special = await resolveFeishuSpecialMessage({
+        feishuCfg,
+        messageType: event.message.message_type,
+        content: event.message.content,
+        accountId,
+        resolveUserName: (openId) => resolveFeishuSenderName({ feishuCfg, senderOpenId: openId, log }),
+        log,
+      });
+      ctx = { ...ctx, content: special.text };
+      specialContext = special.context;
+    }
+
+    // Quoted/replied messages: parsed text with sender names; their media joins the message's own.
+    let quoted: QuotedContext | null = null;
+    if (ctx.parentId) {
+      quoted = await resolveFeishuQuotedContext({
+        cfg,
+        accountId,
+        feishuCfg,
+        parentId: ctx.parentId,
+        maxBytes: mediaMaxBytes,
+        log,
+      });
+      if (quoted) mediaList.push(...quoted.media);
+    }
+    const mediaPayload = buildFeishuMediaPayload(burstMedia, mediaList);
+
     const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(cfg);
 
     // Build message body with quoted content if available
-    let messageBody = ctx.content;
-    if (quotedContent) {
-      messageBody = `[Replying to: "${quotedContent}"]\n\n${ctx.content}`;
+    let messageBody = withBurst(ctx.content);
+    if (quoted) {
+      messageBody = `${quoted.text}\n\n${messageBody}`;
     }
 
     // Check if user is requesting chat history
     let historyContext = "";
-    if (isGroup && isHistoryRequest(ctx.content)) {
+    if (historyRequest) {
       try {
         log(`feishu: detected history request in message`);
         const historyResult = await fetchChatHistoryForAgent({
           cfg,
+          accountId,
           chatId: ctx.chatId,
-          requestContent: ctx.content,
+          requestContent: historyRequest,
           runtime,
         });
 
@@ -743,8 +1293,14 @@ export async function handleFeishuMessage(params: {
       body: messageBody,
     });
 
+    const conversationConfig = resolveFeishuConversationConfig({
+      cfg: feishuCfg,
+      isGroup,
+      chatId: ctx.chatId,
+      senderOpenId: ctx.senderOpenId,
+    });
+
     let combinedBody = body;
-    const historyKey = isGroup ? ctx.chatId : undefined;
 
     if (isGroup && historyKey && chatHistories) {
       combinedBody = buildPendingHistoryContextFromMap({
@@ -766,11 +1322,13 @@ export async function handleFeishuMessage(params: {
 
     const ctxPayload = core.channel.reply.finalizeInboundContext({
       Body: combinedBody,
-      RawBody: ctx.content,
+      RawBody: withBurst(ctx.content),
       CommandBody: ctx.content,
       From: feishuFrom,
       To: feishuTo,
-      SessionKey: route.sessionKey,
+      SessionKey: sessionKey,
+      ParentSessionKey: threadSessions ? route.sessionKey : undefined,
+      MessageThreadId: threadRootId,
       AccountId: route.accountId,
       ChatType: isGroup ? "group" : "direct",
       GroupSubject: isGroup ? ctx.chatId : undefined,
@@ -779,29 +1337,42 @@ export async function handleFeishuMessage(params: {
       Provider: "feishu" as const,
       Surface: "feishu" as const,
       MessageSid: ctx.messageId,
+      ReplyToId: ctx.parentId,
       Timestamp: Date.now(),
       WasMentioned: ctx.mentionedBot,
-      CommandAuthorized: true,
+      CommandAuthorized: commandAuthorized,
       OriginatingChannel: "feishu" as const,
       OriginatingTo: feishuTo,
+      // The host adds this to the system prompt whatever the chat type.
+      GroupSystemPrompt: conversationConfig.systemPrompt,
+      Mentions: ctx.mentions.length > 0 ? ctx.mentions.map(({ id, name, isBot }) => ({ id, name, isBot })) : undefined,
       ...mediaPayload,
+      ...specialContext,
     });
 
     const { dispatcher, replyOptions, markDispatchIdle } = createFeishuReplyDispatcher({
       cfg,
+      accountId,
       agentId: route.agentId,
       runtime: runtime as RuntimeEnv,
       chatId: ctx.chatId,
       replyToMessageId: ctx.messageId,
+      replyInThread,
+      abortSignal,
     });
 
-    log(`feishu: dispatching to agent (session=${route.sessionKey})`);
+    if (abortSignal?.aborted) {
+      log(`feishu: message ${ctx.messageId} was recalled, skipping dispatch`);
+      return;
+    }
+
+    log(`feishu: dispatching to agent (session=${sessionKey})`);
 
     const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
       ctx: ctxPayload,
       cfg,
       dispatcher,
-      replyOptions,
+      replyOptions: { ...replyOptions, skillFilter: conversationConfig.skills },
     });
 
     markDispatchIdle();
@@ -816,6 +1387,10 @@ export async function handleFeishuMessage(params: {
 
     log(`feishu: dispatch complete (queuedFinal=${queuedFinal}, replies=${counts.final})`);
   } catch (err) {
+    if (abortSignal?.aborted) {
+      log(`feishu: run for recalled message ${event.message.message_id} cancelled`);
+      return;
+    }
     error(`feishu: failed to dispatch message: ${String(err)}`);
   }
 }
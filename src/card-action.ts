@@ -0,0 +1,269 @@
+import type { ClawdbotConfig, RuntimeEnv } from "openclaw/plugin-sdk";
+import { resolveFeishuAccount } from "./accounts.js";
+import { resolveFeishuSenderName } from "./bot.js";
+import { getFeishuChatInfo, resolveFeishuExternalContext } from "./chat-info.js";
+import { readFeishuPairedUsers } from "./pairing.js";
+import { checkFeishuSenderAccess, resolveFeishuConversationConfig } from "./policy.js";
+import { createFeishuReplyDispatcher } from "./reply-dispatcher.js";
+import { getFeishuRuntime } from "./runtime.js";
+
+/**
+ * `card.action.trigger` callback as delivered by the event dispatcher
+ * (header fields are flattened in next to the event body).
+ */
+export type FeishuCardActionEvent = {
+  event_id?: string;
+  token?: string;
+  operator?: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+    tenant_key?: string;
+  };
+  action?: {
+    tag?: string;
+    name?: string;
+    value?: unknown;
+    option?: string;
+    options?: string[];
+    input_value?: string;
+    form_value?: Record<string, unknown>;
+    checked?: boolean;
+    timezone?: string;
+  };
+  context?: {
+    open_message_id?: string;
+    open_chat_id?: string;
+  };
+  // Legacy message-card callbacks carry these at the top level.
+  open_id?: string;
+  user_id?: string;
+  open_message_id?: string;
+  open_chat_id?: string;
+};
+
+export type FeishuCardAction = {
+  eventId?: string;
+  chatId: string;
+  /** The card the action was taken on. */
+  messageId: string;
+  operatorOpenId: string;
+  operatorUserId?: string;
+  operatorTenantKey?: string;
+  /** Component tag: button, select_static, input, checker, form, ... */
+  tag: string;
+  name?: string;
+  value?: unknown;
+  option?: string;
+  options?: string[];
+  inputValue?: string;
+  formValue?: Record<string, unknown>;
+  checked?: boolean;
+};
+
+/**
+ * Normalize a card callback. Returns null when it lacks the ids needed to route it.
+ */
+export function parseFeishuCardAction(event: FeishuCardActionEvent): FeishuCardAction | null {
+  const chatId = event.context?.open_chat_id || event.open_chat_id;
+  const messageId = event.context?.open_message_id || event.open_message_id;
+  const operatorOpenId = event.operator?.open_id || event.open_id;
+  const action = event.action;
+  if (!chatId || !messageId || !operatorOpenId || !action) return null;
+
+  // Button values are objects in card JSON 2.0 but strings in older cards.
+  let value = action.value;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Keep the raw string
+    }
+  }
+
+  return {
+    eventId: event.event_id,
+    chatId,
+    messageId,
+    operatorOpenId,
+    operatorUserId: event.operator?.user_id || event.user_id || undefined,
+    operatorTenantKey: event.operator?.tenant_key || undefined,
+    tag: action.tag || "unknown",
+    name: action.name || undefined,
+    value,
+    option: action.option || undefined,
+    options: action.options?.length ? action.options : undefined,
+    inputValue: action.input_value ?? undefined,
+    formValue: action.form_value ?? undefined,
+    checked: action.checked,
+  };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Describe the action for the agent, one fact per line.
+ */
+export function formatFeishuCardAction(action: FeishuCardAction): string {
+  const label = action.name ? `${action.tag} "${action.name}"` : action.tag;
+  const lines = [`[Card action] ${label} on card ${action.messageId}`];
+  if (action.value !== undefined) lines.push(`value: ${formatValue(action.value)}`);
+  if (action.option !== undefined) lines.push(`selected: ${action.option}`);
+  if (action.options) lines.push(`selected: ${action.options.join(", ")}`);
+  if (action.inputValue !== undefined) lines.push(`input: ${action.inputValue}`);
+  if (action.formValue) lines.push(`form: ${formatValue(action.formValue)}`);
+  if (action.checked !== undefined) lines.push(`checked: ${action.checked}`);
+  return lines.join("\n");
+}
+
+/**
+ * Run a card action as an inbound turn from the operator. The reply goes to the card's
+ * chat as a reply to the card, or replaces the card when `cardActions.updateCard` is set.
+ */
+export async function handleFeishuCardAction(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  action: FeishuCardAction;
+  runtime?: RuntimeEnv;
+}): Promise<void> {
+  const { cfg, action, runtime } = params;
+  const account = resolveFeishuAccount({ cfg, accountId: params.accountId });
+  const accountId = account.accountId;
+  const feishuCfg = account.config;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  log(`feishu: card action ${action.tag} from ${action.operatorOpenId} on ${action.messageId} in ${action.chatId}`);
+
+  let isGroup: boolean;
+  try {
+    // chat_mode is "p2p", "group" or "topic"; topic chats follow group rules.
+    isGroup = (await getFeishuChatInfo(feishuCfg, accountId, action.chatId)).chatMode !== "p2p";
+  } catch (err) {
+    // Without the chat type we can't pick the right allowlist, so don't act on it.
+    error(`feishu: failed to resolve chat ${action.chatId} for card action: ${String(err)}`);
+    return;
+  }
+
+  const senderName = await resolveFeishuSenderName({
+    feishuCfg,
+    senderOpenId: action.operatorOpenId,
+    log,
+  });
+
+  const { chatExternal, senderExternal } = await resolveFeishuExternalContext({
+    feishuCfg,
+    accountId,
+    isGroup,
+    chatId: action.chatId,
+    senderOpenId: action.operatorOpenId,
+    senderTenantKey: action.operatorTenantKey,
+    log,
+  });
+
+  const access = checkFeishuSenderAccess({
+    cfg: feishuCfg,
+    isGroup,
+    chatId: action.chatId,
+    senderOpenId: action.operatorOpenId,
+    senderName,
+    storeAllowFrom: !isGroup && (feishuCfg.dmPolicy ?? "pairing") === "pairing" ? await readFeishuPairedUsers(accountId) : undefined,
+    chatExternal,
+    senderExternal,
+  });
+  if ("reason" in access) {
+    log(`feishu: card action ignored, ${access.reason}`);
+    return;
+  }
+  if (access.readonly) {
+    log(`feishu: card action ignored, external group ${action.chatId} is read-only`);
+    return;
+  }
+
+  try {
+    const core = getFeishuRuntime();
+
+    const feishuFrom = `feishu:${action.operatorOpenId}`;
+    const feishuTo = isGroup ? `chat:${action.chatId}` : `user:${action.operatorOpenId}`;
+
+    const route = core.channel.routing.resolveAgentRoute({
+      cfg,
+      channel: "feishu",
+      accountId,
+      peer: {
+        kind: isGroup ? "group" : "dm",
+        id: isGroup ? action.chatId : action.operatorOpenId,
+      },
+    });
+
+    const conversationConfig = resolveFeishuConversationConfig({
+      cfg: feishuCfg,
+      isGroup,
+      chatId: action.chatId,
+      senderOpenId: action.operatorOpenId,
+    });
+
+    const actionText = formatFeishuCardAction(action);
+    const speaker = senderName ?? action.operatorOpenId;
+
+    const body = core.channel.reply.formatAgentEnvelope({
+      channel: "Feishu",
+      from: isGroup ? `${action.chatId}:${action.operatorOpenId}` : action.operatorOpenId,
+      timestamp: new Date(),
+      envelope: core.channel.reply.resolveEnvelopeFormatOptions(cfg),
+      body: `${speaker}: ${actionText}`,
+    });
+
+    const ctxPayload = core.channel.reply.finalizeInboundContext({
+      Body: body,
+      RawBody: actionText,
+      From: feishuFrom,
+      To: feishuTo,
+      SessionKey: route.sessionKey,
+      AccountId: route.accountId,
+      ChatType: isGroup ? "group" : "direct",
+      GroupSubject: isGroup ? action.chatId : undefined,
+      SenderName: speaker,
+      SenderId: action.operatorOpenId,
+      Provider: "feishu" as const,
+      Surface: "feishu" as const,
+      MessageSid: action.messageId,
+      ReplyToId: action.messageId,
+      Timestamp: Date.now(),
+      // Clicking the bot's own card is addressed to the bot.
+      WasMentioned: true,
+      // Action values come from card JSON, not from something the user typed.
+      CommandAuthorized: false,
+      OriginatingChannel: "feishu" as const,
+      OriginatingTo: feishuTo,
+      GroupSystemPrompt: conversationConfig.systemPrompt,
+    });
+
+    const { dispatcher, replyOptions, markDispatchIdle } = createFeishuReplyDispatcher({
+      cfg,
+      accountId,
+      agentId: route.agentId,
+      runtime: runtime as RuntimeEnv,
+      chatId: action.chatId,
+      replyToMessageId: action.messageId,
+      updateCardMessageId: feishuCfg.cardActions?.updateCard ? action.messageId : undefined,
+    });
+
+    log(`feishu: dispatching card action to agent (session=${route.sessionKey})`);
+
+    const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
+      ctx: ctxPayload,
+      cfg,
+      dispatcher,
+      replyOptions: { ...replyOptions, skillFilter: conversationConfig.skills },
+    });
+
+    markDispatchIdle();
+
+    log(`feishu: card action dispatch complete (queuedFinal=${queuedFinal}, replies=${counts.final})`);
+  } catch (err) {
+    error(`feishu: failed to dispatch card action: ${String(err)}`);
+  }
+}
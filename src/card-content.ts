@@ -0,0 +1,197 @@
+/**
+ * Flatten interactive card JSON into markdown the agent can read.
+ * Handles card JSON 1.0 ({ header, elements }), 2.0 ({ schema: "2.0", body: { elements } })
+ * and the simplified shape the message APIs return ({ title, elements: [[{ tag, text }]] }).
+ */
+
+type CardNode = Record<string, any>;
+
+const LOCALE_PREFERENCE = ["zh_cn", "en_us", "ja_jp"];
+
+function pickLocale<T>(map: Record<string, T> | undefined): T | undefined {
+  if (!map || typeof map !== "object") return undefined;
+  for (const locale of LOCALE_PREFERENCE) {
+    if (map[locale] !== undefined) return map[locale];
+  }
+  return Object.values(map)[0];
+}
+
+/** Text object ({ tag: "plain_text" | "lark_md", content }) or a bare string. */
+function textOf(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (!value || typeof value !== "object") return "";
+  const node = value as CardNode;
+  if (typeof node.content === "string" && node.content) return node.content;
+  const localized = pickLocale<string>(node.i18n_content ?? node.i18n);
+  if (typeof localized === "string") return localized;
+  return typeof node.text === "string" ? node.text : "";
+}
+
+function renderButton(node: CardNode): string {
+  const label = textOf(node.text) || node.name || "button";
+  const url = node.url || node.multi_url?.url || node.behaviors?.find((b: CardNode) => b?.type === "open_url")?.default_url;
+  return url ? `[${label}](${url})` : `[${label}]`;
+}
+
+function renderTable(node: CardNode): string {
+  const columns: CardNode[] = Array.isArray(node.columns) ? node.columns : [];
+  const rows: CardNode[] = Array.isArray(node.rows) ? node.rows : [];
+  if (!columns.length) return "";
+  const cell = (value: unknown) => {
+    const text = Array.isArray(value)
+      ? value.map((item) => (typeof item === "object" ? textOf(item) || item?.text || "" : String(item))).join(", ")
+      : typeof value === "object"
+        ? textOf(value)
+        : String(value ?? "");
+    return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  };
+  const header = `| ${columns.map((col) => cell(col.display_name || col.name)).join(" | ")} |`;
+  const divider = `| ${columns.map(() => "---").join(" | ")} |`;
+  const body = rows.map((row) => `| ${columns.map((col) => cell(row[col.name])).join(" | ")} |`);
+  return [header, divider, ...body].join("\n");
+}
+
+function renderElements(elements: unknown): string[] {
+  if (!Array.isArray(elements)) return [];
+  return elements.flatMap((element) => {
+    // The simplified API shape nests elements one level deeper, one array per line.
+    if (Array.isArray(element)) {
+      const line = element.map((item) => renderInline(item)).join("");
+      return line.trim() ? [line.replace(/^[ \t]+|[ \t]+$/g, "")] : [];
+    }
+    const rendered = renderElement(element as CardNode);
+    return rendered.trim() ? [rendered] : [];
+  });
+}
+
+/** Inline pieces of the simplified shape; they share a line. */
+function renderInline(node: CardNode): string {
+  if (!node || typeof node !== "object") return "";
+  switch (node.tag) {
+    case "text":
+      return node.text ?? "";
+    case "a":
+      return node.href ? `[${node.text || node.href}](${node.href})` : (node.text ?? "");
+    case "at":
+      return `@${node.user_name || node.user_id || ""}`;
+    case "button":
+      return ` ${renderButton(node)} `;
+    case "img":
+      return "[image]";
+    case "hr":
+      return "\n---\n";
+    default:
+      return renderElement(node);
+  }
+}
+
+function renderElement(node: CardNode): string {
+  if (!node || typeof node !== "object") return "";
+  switch (node.tag) {
+    case "markdown":
+    case "lark_md":
+    case "plain_text":
+      return textOf(node);
+    case "div": {
+      const parts: string[] = [];
+      const text = textOf(node.text);
+      if (text) parts.push(text);
+      if (Array.isArray(node.fields)) {
+        for (const field of node.fields) {
+          const fieldText = textOf(field?.text).replace(/\n+/g, " ").trim();
+          if (fieldText) parts.push(`- ${fieldText}`);
+        }
+      }
+      if (node.extra) {
+        const extra = renderElement(node.extra);
+        if (extra) parts.push(extra);
+      }
+      return parts.join("\n");
+    }
+    case "hr":
+      // Blank lines around it, or the line above would become a setext heading.
+      return "\n---\n";
+    case "note":
+      return renderElements(node.elements).map((line) => `> ${line}`).join("\n");
+    case "img":
+    case "image":
+      return `[image${textOf(node.alt) ? `: ${textOf(node.alt)}` : ""}]`;
+    case "button":
+      return renderButton(node);
+    case "action":
+      return (Array.isArray(node.actions) ? node.actions : [])
+        .map((action: CardNode) => renderElement(action))
+        .filter(Boolean)
+        .join(" ");
+    case "select_static":
+    case "multi_select_static":
+    case "overflow": {
+      const placeholder = textOf(node.placeholder);
+      const options = (Array.isArray(node.options) ? node.options : [])
+        .map((option: CardNode) => textOf(option?.text))
+        .filter(Boolean);
+      return `[${placeholder || "select"}${options.length ? `: ${options.join(" / ")}` : ""}]`;
+    }
+    case "input":
+      return `[input${textOf(node.label) || textOf(node.placeholder) ? `: ${textOf(node.label) || textOf(node.placeholder)}` : ""}]`;
+    case "table":
+      return renderTable(node);
+    case "column_set":
+      return (Array.isArray(node.columns) ? node.columns : [])
+        .flatMap((column: CardNode) => renderElements(column?.elements))
+        .join("\n");
+    case "collapsible_panel": {
+      const title = textOf(node.header?.title);
+      const body = renderElements(node.elements).join("\n");
+      return title ? `**${title}**\n${body}` : body;
+    }
+    case "form":
+    case "interactive_container":
+    case "column":
+      return renderElements(node.elements).join("\n");
+    case "person":
+    case "person_list":
+      return "[person]";
+    case "chart":
+      return "[chart]";
+    default:
+      // Unknown component: keep whatever text it carries.
+      return textOf(node.text) || textOf(node) || renderElements(node.elements).join("\n");
+  }
+}
+
+/**
+ * Flatten card JSON (string or parsed) to markdown. Returns "" when nothing readable is found.
+ */
+export function flattenFeishuCard(content: string | unknown): string {
+  let card: CardNode;
+  try {
+    card = (typeof content === "string" ? JSON.parse(content) : content) as CardNode;
+  } catch {
+    return "";
+  }
+  if (!card || typeof card !== "object") return "";
+
+  // Template cards only carry an id and variables; the layout lives on the server.
+  if (card.type === "template") {
+    const variables = card.data?.template_variable;
+    const values = variables && typeof variables === "object"
+      ? Object.entries(variables)
+          .filter(([, value]) => typeof value === "string" || typeof value === "number")
+          .map(([key, value]) => `- ${key}: ${value}`)
+      : [];
+    return values.join("\n");
+  }
+
+  const lines: string[] = [];
+  const header = card.header ?? {};
+  const title = textOf(header.title) || (typeof card.title === "string" ? card.title : "");
+  const subtitle = textOf(header.subtitle);
+  if (title) lines.push(`**${title}**`);
+  if (subtitle) lines.push(subtitle);
+
+  const elements = card.body?.elements ?? card.elements ?? pickLocale(card.i18n_elements) ?? pickLocale(card.body?.i18n_elements);
+  lines.push(...renderElements(elements));
+
+  return lines.join("\n").trim();
+}
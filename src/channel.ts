@@ -1,12 +1,26 @@
-import type { ChannelPlugin, ClawdbotConfig } from "openclaw/plugin-sdk";
-import { DEFAULT_ACCOUNT_ID, PAIRING_APPROVED_MESSAGE } from "openclaw/plugin-sdk";
+import type { ChannelPlugin } from "openclaw/plugin-sdk";
+import {
+  DEFAULT_ACCOUNT_ID,
+  PAIRING_APPROVED_MESSAGE,
+  applyAccountNameToChannelSection,
+  deleteAccountFromConfigSection,
+  migrateBaseNameToDefaultAccount,
+  normalizeAccountId,
+  setAccountEnabledInConfigSection,
+} from "openclaw/plugin-sdk";
 import type { ResolvedFeishuAccount, FeishuConfig } from "./types.js";
-import { resolveFeishuAccount, resolveFeishuCredentials } from "./accounts.js";
+import {
+  listFeishuAccountIds,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccount,
+} from "./accounts.js";
+import { getFeishuClientStats, getFeishuWebhookStats, pruneFeishuClientPool } from "./client.js";
 import { feishuOutbound } from "./outbound.js";
 import { probeFeishu } from "./probe.js";
 import { resolveFeishuGroupToolPolicy } from "./policy.js";
 import { normalizeFeishuTarget, looksLikeFeishuId, formatFeishuTarget } from "./targets.js";
 import { sendMessageFeishu } from "./send.js";
+import { parseFeishuPairingId } from "./pairing.js";
 import {
   listFeishuDirectoryPeers,
   listFeishuDirectoryGroups,
@@ -26,6 +40,131 @@ const meta = {
   order: 70,
 } as const;
 
+const accountConfigProperties = {
+  enabled: { type: "boolean" },
+  appId: { type: "string" },
+  appSecret: { type: "string" },
+  encryptKey: { type: "string" },
+  verificationToken: { type: "string" },
+  domain: { type: "string", enum: ["feishu", "lark"] },
+  connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+  webhookPath: { type: "string" },
+  webhookPort: { type: "integer", minimum: 1 },
+  webhookMaxSkewSec: { type: "integer", minimum: 1 },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  groupAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+  commandAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+  external: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      tenantKeys: { type: "array", items: { type: "string" } },
+      senders: { type: "string", enum: ["allow", "deny", "restricted"] },
+      groups: { type: "string", enum: ["allow", "deny", "readonly", "restricted"] },
+      tools: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          allow: { type: "array", items: { type: "string" } },
+          deny: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  botMessages: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      policy: { type: "string", enum: ["ignore", "allowlist", "allow"] },
+      allowFrom: { type: "array", items: { type: "string" } },
+      turnBudget: { type: "integer", minimum: 1 },
+      maxConsecutive: { type: "integer", minimum: 1 },
+      windowSec: { type: "integer", minimum: 1 },
+    },
+  },
+  requireMention: { type: "boolean" },
+  mentionAll: { type: "boolean" },
+  historyLimit: { type: "integer", minimum: 0 },
+  inboundDebounceMs: { type: "integer", minimum: 0 },
+  dmHistoryLimit: { type: "integer", minimum: 0 },
+  textChunkLimit: { type: "integer", minimum: 1 },
+  chunkMode: { type: "string", enum: ["length", "newline"] },
+  mediaMaxMb: { type: "number", minimum: 0 },
+  renderMode: { type: "string", enum: ["auto", "raw", "card"] },
+  dedupe: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      ttlSec: { type: "integer", minimum: 1 },
+      store: { type: "string", enum: ["memory", "file"] },
+      path: { type: "string" },
+    },
+  },
+  queue: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      maxConcurrent: { type: "integer", minimum: 1 },
+      maxPerChat: { type: "integer", minimum: 1 },
+      overflow: { type: "string", enum: ["drop", "merge"] },
+    },
+  },
+  groupJoin: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      welcomeMessage: { type: "string" },
+      welcomeCard: { type: "object" },
+      notifyTarget: { type: "string" },
+      autoAllow: { type: "boolean" },
+    },
+  },
+  cardActions: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      updateCard: { type: "boolean" },
+    },
+  },
+  p2pGreeting: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      title: { type: "string" },
+      text: { type: "string" },
+      card: { type: "object" },
+    },
+  },
+  mergeForward: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      maxDepth: { type: "integer", minimum: 1 },
+      maxMessages: { type: "integer", minimum: 1 },
+    },
+  },
+  quotedContext: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      maxDepth: { type: "integer", minimum: 0 },
+      media: { type: "boolean" },
+    },
+  },
+  threads: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      sessions: { type: "boolean" },
+      replyInThread: { type: "boolean" },
+    },
+  },
+} as const;
+
 export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   id: "feishu",
   meta: {
@@ -35,9 +174,12 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
     idLabel: "feishuUserId",
     normalizeAllowEntry: (entry) => entry.replace(/^(feishu|user|open_id):/i, ""),
     notifyApproval: async ({ cfg, id }) => {
+      // Approved ids carry the account they were requested on; see parseFeishuPairingId.
+      const { accountId, openId } = parseFeishuPairingId(id);
       await sendMessageFeishu({
         cfg,
-        to: id,
+        accountId,
+        to: openId,
         text: PAIRING_APPROVED_MESSAGE,
       });
     },
@@ -66,63 +208,51 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       type: "object",
       additionalProperties: false,
       properties: {
-        enabled: { type: "boolean" },
-        appId: { type: "string" },
-        appSecret: { type: "string" },
-        encryptKey: { type: "string" },
-        verificationToken: { type: "string" },
-        domain: { type: "string", enum: ["feishu", "lark"] },
-        connectionMode: { type: "string", enum: ["websocket", "webhook"] },
-        webhookPath: { type: "string" },
-        webhookPort: { type: "integer", minimum: 1 },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        allowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        groupAllowFrom: { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
-        requireMention: { type: "boolean" },
-        historyLimit: { type: "integer", minimum: 0 },
-        dmHistoryLimit: { type: "integer", minimum: 0 },
-        textChunkLimit: { type: "integer", minimum: 1 },
-        chunkMode: { type: "string", enum: ["length", "newline"] },
-        mediaMaxMb: { type: "number", minimum: 0 },
-        renderMode: { type: "string", enum: ["auto", "raw", "card"] },
+        ...accountConfigProperties,
+        name: { type: "string" },
+        defaultAccount: { type: "string" },
+        accounts: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              ...accountConfigProperties,
+              name: { type: "string" },
+            },
+          },
+        },
       },
     },
   },
   config: {
-    listAccountIds: () => [DEFAULT_ACCOUNT_ID],
-    resolveAccount: (cfg) => resolveFeishuAccount({ cfg }),
-    defaultAccountId: () => DEFAULT_ACCOUNT_ID,
-    setAccountEnabled: ({ cfg, enabled }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        feishu: {
-          ...cfg.channels?.feishu,
-          enabled,
-        },
-      },
-    }),
-    deleteAccount: ({ cfg }) => {
-      const next = { ...cfg } as ClawdbotConfig;
-      const nextChannels = { ...cfg.channels };
-      delete (nextChannels as Record<string, unknown>).feishu;
-      if (Object.keys(nextChannels).length > 0) {
-        next.channels = nextChannels;
-      } else {
-        delete next.channels;
-      }
-      return next;
-    },
-    isConfigured: (_account, cfg) =>
-      Boolean(resolveFeishuCredentials(cfg.channels?.feishu as FeishuConfig | undefined)),
+    listAccountIds: (cfg) => listFeishuAccountIds(cfg),
+    resolveAccount: (cfg, accountId) => resolveFeishuAccount({ cfg, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultFeishuAccountId(cfg),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg,
+        sectionKey: "feishu",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg,
+        sectionKey: "feishu",
+        accountId,
+        clearBaseFields: ["appId", "appSecret", "encryptKey", "verificationToken", "name"],
+      }),
+    isConfigured: (account) => account.configured,
     describeAccount: (account) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
-    resolveAllowFrom: ({ cfg }) =>
-      (cfg.channels?.feishu as FeishuConfig | undefined)?.allowFrom ?? [],
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      resolveFeishuAccount({ cfg, accountId }).config.allowFrom ?? [],
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom
         .map((entry) => String(entry).trim())
@@ -130,28 +260,67 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
         .map((entry) => entry.toLowerCase()),
   },
   security: {
-    collectWarnings: ({ cfg }) => {
-      const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+    collectWarnings: ({ cfg, accountId }) => {
+      const account = resolveFeishuAccount({ cfg, accountId });
       const defaultGroupPolicy = (cfg.channels as Record<string, { groupPolicy?: string }> | undefined)?.defaults?.groupPolicy;
-      const groupPolicy = feishuCfg?.groupPolicy ?? defaultGroupPolicy ?? "allowlist";
+      const groupPolicy = account.config.groupPolicy ?? defaultGroupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
+      const basePath = (cfg.channels?.feishu as FeishuConfig | undefined)?.accounts?.[account.accountId]
+        ? `channels.feishu.accounts.${account.accountId}`
+        : "channels.feishu";
       return [
-        `- Feishu groups: groupPolicy="open" allows any member to trigger (mention-gated). Set channels.feishu.groupPolicy="allowlist" + channels.feishu.groupAllowFrom to restrict senders.`,
+        `- Feishu groups: groupPolicy="open" allows any member to trigger (mention-gated). Set ${basePath}.groupPolicy="allowlist" + ${basePath}.groupAllowFrom to restrict senders.`,
       ];
     },
   },
   setup: {
-    resolveAccountId: () => DEFAULT_ACCOUNT_ID,
-    applyAccountConfig: ({ cfg }) => ({
-      ...cfg,
-      channels: {
-        ...cfg.channels,
-        feishu: {
-          ...cfg.channels?.feishu,
-          enabled: true,
+    resolveAccountId: ({ accountId }) => normalizeAccountId(accountId),
+    applyAccountName: ({ cfg, accountId, name }) =>
+      applyAccountNameToChannelSection({
+        cfg,
+        channelKey: "feishu",
+        accountId,
+        name,
+      }),
+    applyAccountConfig: ({ cfg, accountId, input }) => {
+      const namedConfig = applyAccountNameToChannelSection({
+        cfg,
+        channelKey: "feishu",
+        accountId,
+        name: input?.name,
+      });
+      if (accountId === DEFAULT_ACCOUNT_ID) {
+        return {
+          ...namedConfig,
+          channels: {
+            ...namedConfig.channels,
+            feishu: {
+              ...namedConfig.channels?.feishu,
+              enabled: true,
+            },
+          },
+        };
+      }
+      const next = migrateBaseNameToDefaultAccount({ cfg: namedConfig, channelKey: "feishu" });
+      const feishuCfg = next.channels?.feishu as FeishuConfig | undefined;
+      return {
+        ...next,
+        channels: {
+          ...next.channels,
+          feishu: {
+            ...feishuCfg,
+            enabled: true,
+            accounts: {
+              ...feishuCfg?.accounts,
+              [accountId]: {
+                ...feishuCfg?.accounts?.[accountId],
+                enabled: true,
+              },
+            },
+          },
         },
-      },
-    }),
+      };
+    },
   },
   onboarding: feishuOnboardingAdapter,
   messaging: {
@@ -163,14 +332,14 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
   },
   directory: {
     self: async () => null,
-    listPeers: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryPeers({ cfg, query, limit }),
-    listGroups: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryGroups({ cfg, query, limit }),
-    listPeersLive: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryPeersLive({ cfg, query, limit }),
-    listGroupsLive: async ({ cfg, query, limit }) =>
-      listFeishuDirectoryGroupsLive({ cfg, query, limit }),
+    listPeers: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryPeers({ cfg, accountId: accountId ?? undefined, query, limit }),
+    listGroups: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryGroups({ cfg, accountId: accountId ?? undefined, query, limit }),
+    listPeersLive: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryPeersLive({ cfg, accountId: accountId ?? undefined, query, limit }),
+    listGroupsLive: async ({ cfg, accountId, query, limit }) =>
+      listFeishuDirectoryGroupsLive({ cfg, accountId: accountId ?? undefined, query, limit }),
   },
   outbound: feishuOutbound,
   status: {
@@ -181,6 +350,10 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       lastStopAt: null,
       lastError: null,
       port: null,
+      connected: false,
+      connectionState: null,
+      reconnectAttempts: 0,
+      lastConnectedAt: null,
     },
     buildChannelSummary: ({ snapshot }) => ({
       configured: snapshot.configured ?? false,
@@ -189,13 +362,15 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       lastStopAt: snapshot.lastStopAt ?? null,
       lastError: snapshot.lastError ?? null,
       port: snapshot.port ?? null,
+      connected: snapshot.connected ?? false,
+      lastConnectedAt: snapshot.lastConnectedAt ?? null,
       probe: snapshot.probe,
       lastProbeAt: snapshot.lastProbeAt ?? null,
     }),
-    probeAccount: async ({ cfg }) =>
-      await probeFeishu(cfg.channels?.feishu as FeishuConfig | undefined),
+    probeAccount: async ({ account }) => await probeFeishu(account.config),
     buildAccountSnapshot: ({ account, runtime, probe }) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
       running: runtime?.running ?? false,
@@ -203,21 +378,34 @@ export const feishuPlugin: ChannelPlugin<ResolvedFeishuAccount> = {
       lastStopAt: runtime?.lastStopAt ?? null,
       lastError: runtime?.lastError ?? null,
       port: runtime?.port ?? null,
+      connected: runtime?.connected ?? false,
+      connectionState: runtime?.connectionState ?? null,
+      reconnectAttempts: runtime?.reconnectAttempts ?? 0,
+      lastConnectedAt: runtime?.lastConnectedAt ?? null,
+      dedupe: runtime?.dedupe ?? null,
+      queue: runtime?.queue ?? null,
+      client: getFeishuClientStats(account.config)[0] ?? null,
+      webhook: getFeishuWebhookStats(account.config),
       probe,
     }),
   },
   gateway: {
     startAccount: async (ctx) => {
       const { monitorFeishuProvider } = await import("./monitor.js");
-      const feishuCfg = ctx.cfg.channels?.feishu as FeishuConfig | undefined;
-      const port = feishuCfg?.webhookPort ?? null;
+      // Config reloads restart accounts; drop clients whose credentials were removed or rotated.
+      pruneFeishuClientPool(ctx.cfg);
+      const feishuCfg = ctx.account.config;
+      const port = feishuCfg.webhookPort ?? null;
       ctx.setStatus({ accountId: ctx.accountId, port });
-      ctx.log?.info(`starting feishu provider (mode: ${feishuCfg?.connectionMode ?? "websocket"})`);
+      ctx.log?.info(
+        `[${ctx.accountId}] starting feishu provider (mode: ${feishuCfg.connectionMode ?? "websocket"})`,
+      );
       return monitorFeishuProvider({
         config: ctx.cfg,
         runtime: ctx.runtime,
         abortSignal: ctx.abortSignal,
         accountId: ctx.accountId,
+        setStatus: (status) => ctx.setStatus({ accountId: ctx.accountId, ...status }),
       });
     },
   },
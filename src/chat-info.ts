@@ -0,0 +1,106 @@
+import { createFeishuClient } from "./client.js";
+import { isFeishuExternalSender, recordFeishuExternalContext } from "./policy.js";
+import type { FeishuConfig } from "./types.js";
+
+export type FeishuChatInfo = {
+  /** "p2p", "group" or "topic" */
+  chatMode: string;
+  /** The chat can have members from other tenants. */
+  external: boolean;
+};
+
+// Chat mode and external status are fixed when a chat is created, so lookups are cached
+// for the life of the process. Caches are keyed by account + chat: each account's app sees
+// chats through its own permissions.
+const chatInfoCache = new Map<string, FeishuChatInfo>();
+
+// Owners and managers do change, so their lookups expire.
+const CHAT_ROLES_TTL_MS = 5 * 60 * 1000;
+const chatRolesCache = new Map<string, { ownerId?: string; managerIds: string[]; expiresAt: number }>();
+
+async function fetchFeishuChat(feishuCfg: FeishuConfig, chatId: string): Promise<any> {
+  const client = createFeishuClient(feishuCfg);
+  const res: any = await client.im.chat.get({
+    path: { chat_id: chatId },
+    params: { user_id_type: "open_id" },
+  });
+  if (res.code !== 0) {
+    throw new Error(`Feishu chat lookup failed: ${res.msg || `code ${res.code}`}`);
+  }
+  return res.data ?? {};
+}
+
+export async function getFeishuChatInfo(
+  feishuCfg: FeishuConfig,
+  accountId: string,
+  chatId: string,
+): Promise<FeishuChatInfo> {
+  const key = `${accountId}:${chatId}`;
+  const cached = chatInfoCache.get(key);
+  if (cached) return cached;
+
+  const data = await fetchFeishuChat(feishuCfg, chatId);
+  const info: FeishuChatInfo = {
+    chatMode: data.chat_mode ?? "group",
+    external: data.external === true,
+  };
+  chatInfoCache.set(key, info);
+  return info;
+}
+
+/**
+ * The sender's role in a group chat, from the chat's owner and manager lists. The member
+ * list endpoint doesn't report roles, so they come from the chat itself.
+ */
+export async function getFeishuChatRole(
+  feishuCfg: FeishuConfig,
+  accountId: string,
+  chatId: string,
+  openId: string,
+): Promise<"owner" | "manager" | "member"> {
+  const now = Date.now();
+  const key = `${accountId}:${chatId}`;
+  let roles = chatRolesCache.get(key);
+  if (!roles || roles.expiresAt <= now) {
+    const data = await fetchFeishuChat(feishuCfg, chatId);
+    roles = {
+      ownerId: data.owner_id,
+      managerIds: data.user_manager_id_list ?? [],
+      expiresAt: now + CHAT_ROLES_TTL_MS,
+    };
+    chatRolesCache.set(key, roles);
+  }
+  if (roles.ownerId === openId) return "owner";
+  return roles.managerIds.includes(openId) ? "manager" : "member";
+}
+
+/**
+ * Work out whether the chat and the sender are outside our tenants, and record it for the
+ * tool policy hook. The chat is only looked up when an external-group mode is set; if that
+ * lookup fails the chat is treated as external.
+ */
+export async function resolveFeishuExternalContext(params: {
+  feishuCfg: FeishuConfig;
+  accountId: string;
+  isGroup: boolean;
+  chatId: string;
+  senderOpenId: string;
+  senderTenantKey?: string;
+  log: (...args: any[]) => void;
+}): Promise<{ chatExternal: boolean; senderExternal: boolean }> {
+  const { feishuCfg, accountId, isGroup, chatId, senderOpenId, senderTenantKey, log } = params;
+  const senderExternal = isFeishuExternalSender(feishuCfg, senderTenantKey);
+
+  let chatExternal = false;
+  if (isGroup && (feishuCfg.external?.groups ?? "allow") !== "allow") {
+    try {
+      chatExternal = (await getFeishuChatInfo(feishuCfg, accountId, chatId)).external;
+    } catch (err) {
+      log(`feishu: failed to look up chat ${chatId}, treating it as external: ${String(err)}`);
+      chatExternal = true;
+    }
+  }
+
+  recordFeishuExternalContext({ chatId, chatExternal, senderOpenId, senderExternal });
+  return { chatExternal, senderExternal };
+}
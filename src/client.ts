@@ -1,44 +1,175 @@
+import crypto from "node:crypto";
 import * as Lark from "@larksuiteoapi/node-sdk";
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
 import type { FeishuConfig, FeishuDomain } from "./types.js";
-import { resolveFeishuCredentials } from "./accounts.js";
+import { listFeishuAccountIds, resolveFeishuAccount, resolveFeishuCredentials } from "./accounts.js";
 
-let cachedClient: Lark.Client | null = null;
-let cachedConfig: { appId: string; appSecret: string; domain: FeishuDomain } | null = null;
+// Clients are pooled by app + endpoint so alternating credential sets (multiple accounts)
+// keep their own client and tenant token instead of evicting each other.
+const CLIENT_IDLE_TTL_MS = 30 * 60 * 1000;
+
+const FEISHU_BASE_URLS: Record<FeishuDomain, string> = {
+  feishu: "https://open.feishu.cn",
+  lark: "https://open.larksuite.com",
+};
+
+export type FeishuClientStats = {
+  key: string;
+  appId: string;
+  domain: FeishuDomain;
+  baseUrl: string;
+  createdAt: number;
+  lastUsedAt: number;
+  tokenRefreshCount: number;
+  lastTokenRefreshAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+};
+
+type ClientPoolEntry = {
+  client: Lark.Client;
+  appSecret: string;
+  stats: FeishuClientStats;
+};
+
+type LarkLogger = NonNullable<ConstructorParameters<typeof Lark.Client>[0]["logger"]>;
+
+const clientPool = new Map<string, ClientPoolEntry>();
 
 function resolveDomain(domain: FeishuDomain) {
   return domain === "lark" ? Lark.Domain.Lark : Lark.Domain.Feishu;
 }
 
+function resolveBaseUrl(domain: FeishuDomain): string {
+  return FEISHU_BASE_URLS[domain] ?? FEISHU_BASE_URLS.feishu;
+}
+
+function buildClientKey(creds: { appId: string; domain: FeishuDomain }): string {
+  return `${creds.appId}|${creds.domain}|${resolveBaseUrl(creds.domain)}`;
+}
+
+function formatLogArgs(args: unknown[]): string {
+  // The SDK's logger proxy passes its arguments through as a single array.
+  return args
+    .flat()
+    .map((arg) => (arg instanceof Error ? arg.message : typeof arg === "string" ? arg : safeStringify(arg)))
+    .join(" ");
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Per-client token cache. The SDK writes the tenant access token through `cache.set`
+ * every time it fetches a fresh one, which is what we count as a token refresh.
+ */
+function createTrackedCache(stats: FeishuClientStats): Lark.Cache {
+  const values = new Map<string | symbol, { value: unknown; expireAt?: number }>();
+  const cacheKey = (key: string | symbol, namespace?: string) =>
+    namespace ? `${namespace}/${key.toString()}` : key;
+
+  return {
+    get: async (key, options) => {
+      const entry = values.get(cacheKey(key as string | symbol, options?.namespace));
+      if (!entry) return undefined;
+      if (entry.expireAt && entry.expireAt <= Date.now()) return undefined;
+      return entry.value;
+    },
+    set: async (key, value, expire, options) => {
+      if (key === Lark.CTenantAccessToken) {
+        stats.tokenRefreshCount += 1;
+        stats.lastTokenRefreshAt = Date.now();
+      }
+      values.set(cacheKey(key as string | symbol, options?.namespace), { value, expireAt: expire });
+      return true;
+    },
+  };
+}
+
+/**
+ * Forward SDK logs to the console and hand errors to `onError` for status reporting.
+ */
+function createTrackedLogger(onError?: (message: string) => void): LarkLogger {
+  return {
+    error: (...msg: unknown[]) => {
+      onError?.(formatLogArgs(msg));
+      console.error("[feishu]", ...msg);
+    },
+    warn: (...msg: unknown[]) => console.warn("[feishu]", ...msg),
+    info: (...msg: unknown[]) => console.info("[feishu]", ...msg),
+    debug: (...msg: unknown[]) => console.debug("[feishu]", ...msg),
+    trace: (...msg: unknown[]) => console.trace("[feishu]", ...msg),
+  };
+}
+
+function evictIdleClients(now: number) {
+  for (const [key, entry] of clientPool) {
+    if (now - entry.stats.lastUsedAt > CLIENT_IDLE_TTL_MS) {
+      clientPool.delete(key);
+    }
+  }
+}
+
 export function createFeishuClient(cfg: FeishuConfig): Lark.Client {
   const creds = resolveFeishuCredentials(cfg);
   if (!creds) {
     throw new Error("Feishu credentials not configured (appId, appSecret required)");
   }
 
-  if (
-    cachedClient &&
-    cachedConfig &&
-    cachedConfig.appId === creds.appId &&
-    cachedConfig.appSecret === creds.appSecret &&
-    cachedConfig.domain === creds.domain
-  ) {
-    return cachedClient;
+  const now = Date.now();
+  evictIdleClients(now);
+
+  const key = buildClientKey(creds);
+  const existing = clientPool.get(key);
+  if (existing && existing.appSecret === creds.appSecret) {
+    existing.stats.lastUsedAt = now;
+    return existing.client;
   }
 
+  // Either a new app or a rotated secret; a rotated secret invalidates the cached token too.
+  const stats: FeishuClientStats = {
+    key,
+    appId: creds.appId,
+    domain: creds.domain,
+    baseUrl: resolveBaseUrl(creds.domain),
+    createdAt: now,
+    lastUsedAt: now,
+    tokenRefreshCount: 0,
+    lastTokenRefreshAt: null,
+    lastError: null,
+    lastErrorAt: null,
+  };
+
   const client = new Lark.Client({
     appId: creds.appId,
     appSecret: creds.appSecret,
     appType: Lark.AppType.SelfBuild,
     domain: resolveDomain(creds.domain),
+    cache: createTrackedCache(stats),
+    logger: createTrackedLogger((message) => {
+      stats.lastError = message;
+      stats.lastErrorAt = Date.now();
+    }),
   });
 
-  cachedClient = client;
-  cachedConfig = { appId: creds.appId, appSecret: creds.appSecret, domain: creds.domain };
+  clientPool.set(key, { client, appSecret: creds.appSecret, stats });
 
   return client;
 }
 
-export function createFeishuWSClient(cfg: FeishuConfig): Lark.WSClient {
+/**
+ * WebSocket client with the SDK's own reconnect loop disabled; the monitor owns reconnects.
+ * `onError` receives SDK error logs so connection failures can be surfaced in status.
+ */
+export function createFeishuWSClient(
+  cfg: FeishuConfig,
+  opts?: { onError?: (message: string) => void },
+): Lark.WSClient {
   const creds = resolveFeishuCredentials(cfg);
   if (!creds) {
     throw new Error("Feishu credentials not configured (appId, appSecret required)");
@@ -49,7 +180,76 @@ export function createFeishuWSClient(cfg: FeishuConfig): Lark.WSClient {
     appSecret: creds.appSecret,
     domain: resolveDomain(creds.domain),
     loggerLevel: Lark.LoggerLevel.info,
+    autoReconnect: false,
+    logger: createTrackedLogger(opts?.onError),
+  });
+}
+
+export type FeishuWSSocket = {
+  readyState: number;
+  once(event: "close", listener: (code: number) => void): unknown;
+  terminate(): void;
+};
+
+// WSClient (SDK 1.56.1) has no close() and `start()` doesn't report whether it connected,
+// so we drive its connect steps directly. Later releases rework these internals (close(),
+// lifecycle callbacks, extra timers), which is why package.json pins the SDK exactly; check
+// this block before bumping it. Keep every reach into SDK internals in here.
+type WSClientInternals = {
+  eventDispatcher?: Lark.EventDispatcher;
+  pingInterval?: ReturnType<typeof setTimeout>;
+  reconnectInterval?: ReturnType<typeof setTimeout>;
+  wsConfig: {
+    getWSInstance(): FeishuWSSocket | null;
+    setWSInstance(ws: FeishuWSSocket | null): void;
+  };
+  pullConnectConfig(): Promise<boolean>;
+  connect(): Promise<boolean>;
+  communicate(): void;
+};
+
+const WS_CONNECT_TIMEOUT_MS = 30_000;
+
+/**
+ * Open the connection once. Resolves with the live socket, or null if the attempt failed.
+ */
+export async function connectFeishuWSClient(
+  wsClient: Lark.WSClient,
+  eventDispatcher: Lark.EventDispatcher,
+): Promise<FeishuWSSocket | null> {
+  const internals = wsClient as unknown as WSClientInternals;
+  internals.eventDispatcher = eventDispatcher;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), WS_CONNECT_TIMEOUT_MS);
   });
+  const attempt = (async () => {
+    if (!(await internals.pullConnectConfig())) return false;
+    return await internals.connect();
+  })();
+
+  const connected = await Promise.race([attempt, timeout]).finally(() => clearTimeout(timer));
+  if (!connected) {
+    closeFeishuWSClient(wsClient);
+    // A timed-out attempt may still open later; don't leave that socket behind.
+    void attempt.then((opened) => opened && closeFeishuWSClient(wsClient));
+    return null;
+  }
+  internals.communicate();
+  return internals.wsConfig.getWSInstance();
+}
+
+/**
+ * Terminate the socket and stop the SDK's ping/reconnect timers.
+ */
+export function closeFeishuWSClient(wsClient: Lark.WSClient): void {
+  const internals = wsClient as unknown as WSClientInternals;
+  clearTimeout(internals.pingInterval);
+  clearTimeout(internals.reconnectInterval);
+  const socket = internals.wsConfig.getWSInstance();
+  internals.wsConfig.setWSInstance(null);
+  socket?.terminate();
 }
 
 export function createEventDispatcher(cfg: FeishuConfig): Lark.EventDispatcher {
@@ -60,7 +260,209 @@ export function createEventDispatcher(cfg: FeishuConfig): Lark.EventDispatcher {
   });
 }
 
+const DEFAULT_WEBHOOK_MAX_SKEW_SEC = 300;
+const MAX_WEBHOOK_NONCES = 10_000;
+
+export type FeishuWebhookRejectReason =
+  | "missing_headers"
+  | "invalid_signature"
+  | "stale_timestamp"
+  | "replayed_nonce"
+  | "invalid_token"
+  | "decrypt_failed";
+
+export type FeishuWebhookVerifyResult =
+  | { ok: true }
+  | { ok: false; reason: FeishuWebhookRejectReason; message: string };
+
+export type FeishuWebhookStats = {
+  accepted: number;
+  rejected: Record<FeishuWebhookRejectReason, number>;
+  lastRejectReason: FeishuWebhookRejectReason | null;
+  lastRejectAt: number | null;
+};
+
+type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export type FeishuWebhookVerifier = {
+  /** Check X-Lark-Signature, the timestamp window and the nonce cache for one delivery. */
+  verify: (params: { headers: WebhookHeaders; rawBody: string; now?: number }) => FeishuWebhookVerifyResult;
+  stats: FeishuWebhookStats;
+};
+
+type WebhookVerifierEntry = {
+  encryptKey: string;
+  maxSkewSec: number;
+  verifier: FeishuWebhookVerifier;
+};
+
+const webhookVerifiers = new Map<string, WebhookVerifierEntry>();
+// Stats are kept per app so counters survive monitor restarts and key rotation and show up in status.
+const webhookStats = new Map<string, FeishuWebhookStats>();
+
+function resolveWebhookStats(key: string): FeishuWebhookStats {
+  let stats = webhookStats.get(key);
+  if (!stats) {
+    stats = {
+      accepted: 0,
+      rejected: {
+        missing_headers: 0,
+        invalid_signature: 0,
+        stale_timestamp: 0,
+        replayed_nonce: 0,
+        invalid_token: 0,
+        decrypt_failed: 0,
+      },
+      lastRejectReason: null,
+      lastRejectAt: null,
+    };
+    webhookStats.set(key, stats);
+  }
+  return stats;
+}
+
+function countRejection(stats: FeishuWebhookStats, reason: FeishuWebhookRejectReason, now: number) {
+  stats.rejected[reason] += 1;
+  stats.lastRejectReason = reason;
+  stats.lastRejectAt = now;
+}
+
+function readHeader(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+function createWebhookVerifier(
+  encryptKey: string,
+  maxSkewSec: number,
+  stats: FeishuWebhookStats,
+): FeishuWebhookVerifier {
+  // nonce -> expiry (ms). Insertion order doubles as age order for eviction.
+  const seenNonces = new Map<string, number>();
+
+  const reject = (reason: FeishuWebhookRejectReason, message: string, now: number) => {
+    countRejection(stats, reason, now);
+    return { ok: false as const, reason, message };
+  };
+
+  const rememberNonce = (nonce: string, now: number) => {
+    for (const [key, expireAt] of seenNonces) {
+      if (expireAt > now && seenNonces.size < MAX_WEBHOOK_NONCES) break;
+      seenNonces.delete(key);
+    }
+    // A nonce only needs to be remembered as long as its timestamp is still acceptable.
+    seenNonces.set(nonce, now + maxSkewSec * 2 * 1000);
+  };
+
+  return {
+    stats,
+    verify: ({ headers, rawBody, now = Date.now() }) => {
+      const timestamp = readHeader(headers, "X-Lark-Request-Timestamp");
+      const nonce = readHeader(headers, "X-Lark-Request-Nonce");
+      const signature = readHeader(headers, "X-Lark-Signature");
+      if (!timestamp || !nonce || !signature) {
+        return reject("missing_headers", "missing X-Lark signature headers", now);
+      }
+
+      const expected = crypto
+        .createHash("sha256")
+        .update(timestamp + nonce + encryptKey + rawBody)
+        .digest("hex");
+      const expectedBuf = Buffer.from(expected);
+      const signatureBuf = Buffer.from(signature.toLowerCase());
+      if (expectedBuf.length !== signatureBuf.length || !crypto.timingSafeEqual(expectedBuf, signatureBuf)) {
+        return reject("invalid_signature", "signature mismatch", now);
+      }
+
+      const timestampSec = Number(timestamp);
+      if (!Number.isFinite(timestampSec) || Math.abs(now / 1000 - timestampSec) > maxSkewSec) {
+        return reject("stale_timestamp", `timestamp ${timestamp} outside ${maxSkewSec}s window`, now);
+      }
+
+      const expireAt = seenNonces.get(nonce);
+      if (expireAt && expireAt > now) {
+        return reject("replayed_nonce", `nonce ${nonce} already seen`, now);
+      }
+      rememberNonce(nonce, now);
+
+      stats.accepted += 1;
+      return { ok: true };
+    },
+  };
+}
+
+/**
+ * Signature verifier for webhook deliveries. Feishu only signs requests when an encryptKey
+ * is configured, so this returns null without one and callers fall back to the token check.
+ */
+export function getFeishuWebhookVerifier(cfg: FeishuConfig): FeishuWebhookVerifier | null {
+  const creds = resolveFeishuCredentials(cfg);
+  if (!creds?.encryptKey) return null;
+  const maxSkewSec = cfg.webhookMaxSkewSec ?? DEFAULT_WEBHOOK_MAX_SKEW_SEC;
+
+  const key = buildClientKey(creds);
+  const existing = webhookVerifiers.get(key);
+  if (existing && existing.encryptKey === creds.encryptKey && existing.maxSkewSec === maxSkewSec) {
+    return existing.verifier;
+  }
+
+  // Counters carry over key rotation or window changes; only the nonce cache starts fresh.
+  const verifier = createWebhookVerifier(creds.encryptKey, maxSkewSec, resolveWebhookStats(key));
+  webhookVerifiers.set(key, { encryptKey: creds.encryptKey, maxSkewSec, verifier });
+  return verifier;
+}
+
+/**
+ * Count a delivery rejected outside the signature check (bad verification token, undecryptable
+ * payload). Unlike the verifier this works without an encryptKey.
+ */
+export function recordFeishuWebhookRejection(
+  cfg: FeishuConfig,
+  reason: FeishuWebhookRejectReason,
+  now = Date.now(),
+): void {
+  const creds = resolveFeishuCredentials(cfg);
+  if (!creds) return;
+  countRejection(resolveWebhookStats(buildClientKey(creds)), reason, now);
+}
+
+export function getFeishuWebhookStats(cfg: FeishuConfig): FeishuWebhookStats | null {
+  const creds = resolveFeishuCredentials(cfg);
+  if (!creds) return null;
+  const stats = webhookStats.get(buildClientKey(creds));
+  return stats ? { ...stats, rejected: { ...stats.rejected } } : null;
+}
+
+/**
+ * Stats for the pooled client serving this config, or every pooled client when omitted.
+ */
+export function getFeishuClientStats(cfg?: FeishuConfig): FeishuClientStats[] {
+  if (!cfg) {
+    return Array.from(clientPool.values(), (entry) => ({ ...entry.stats }));
+  }
+  const creds = resolveFeishuCredentials(cfg);
+  if (!creds) return [];
+  const entry = clientPool.get(buildClientKey(creds));
+  return entry ? [{ ...entry.stats }] : [];
+}
+
+/**
+ * Dispose pooled clients that no longer match any configured account.
+ * Called when the channel (re)starts so reloaded credentials don't leave stale clients behind.
+ */
+export function pruneFeishuClientPool(cfg: ClawdbotConfig): void {
+  const active = new Map<string, string>();
+  for (const accountId of listFeishuAccountIds(cfg)) {
+    const creds = resolveFeishuCredentials(resolveFeishuAccount({ cfg, accountId }).config);
+    if (creds) active.set(buildClientKey(creds), creds.appSecret);
+  }
+  for (const [key, entry] of clientPool) {
+    if (active.get(key) !== entry.appSecret) {
+      clientPool.delete(key);
+    }
+  }
+}
+
 export function clearClientCache() {
-  cachedClient = null;
-  cachedConfig = null;
+  clientPool.clear();
 }
@@ -50,9 +50,112 @@ const ChannelHeartbeatVisibilitySchema = z
   .strict()
   .optional();
 
+// Inbound redelivery dedupe: memory (default) or a JSON file that survives restarts
+const DedupeConfigSchema = z
+  .object({
+    ttlSec: z.number().int().positive().optional(),
+    store: z.enum(["memory", "file"]).optional(),
+    path: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
+// Per-chat FIFO processing: cap on chats handled at once and on messages waiting per chat
+const QueueConfigSchema = z
+  .object({
+    maxConcurrent: z.number().int().positive().optional(),
+    maxPerChat: z.number().int().positive().optional(),
+    overflow: z.enum(["drop", "merge"]).optional(),
+  })
+  .strict()
+  .optional();
+
+// What to do when the bot is added to / removed from a group
+const GroupJoinConfigSchema = z
+  .object({
+    welcomeMessage: z.string().optional(),
+    welcomeCard: z.record(z.string(), z.unknown()).optional(),
+    notifyTarget: z.string().optional(),
+    autoAllow: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+// Limits for expanding forwarded chat records (merge_forward)
+const MergeForwardConfigSchema = z
+  .object({
+    maxDepth: z.number().int().positive().optional(),
+    maxMessages: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+// Greeting card for users opening a DM with the bot for the first time
+const P2pGreetingConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    title: z.string().optional(),
+    text: z.string().optional(),
+    card: z.record(z.string(), z.unknown()).optional(),
+  })
+  .strict()
+  .optional();
+
+// Interactive card callbacks (card.action.trigger) routed to the agent
+const CardActionsConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    updateCard: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+// Replied-to messages shown to the agent: how far up the reply chain, and whether to download their media
+const QuotedContextConfigSchema = z
+  .object({
+    maxDepth: z.number().int().min(0).optional(),
+    media: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+// People and chats outside our own tenant(s)
+const ExternalConfigSchema = z
+  .object({
+    tenantKeys: z.array(z.string()).optional(),
+    senders: z.enum(["allow", "deny", "restricted"]).optional(),
+    groups: z.enum(["allow", "deny", "readonly", "restricted"]).optional(),
+    tools: ToolPolicySchema,
+  })
+  .strict()
+  .optional();
+
+// Messages from other apps' bots, and how long two bots may keep answering each other
+const BotMessagesConfigSchema = z
+  .object({
+    policy: z.enum(["ignore", "allowlist", "allow"]).optional(),
+    allowFrom: z.array(z.string()).optional(),
+    turnBudget: z.number().int().positive().optional(),
+    maxConsecutive: z.number().int().positive().optional(),
+    windowSec: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+// Threads (and topic-mode groups, where every post opens a topic)
+const ThreadsConfigSchema = z
+  .object({
+    sessions: z.boolean().optional(),
+    replyInThread: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
 export const FeishuGroupSchema = z
   .object({
     requireMention: z.boolean().optional(),
+    mentionAll: z.boolean().optional(),
+    threads: ThreadsConfigSchema,
     tools: ToolPolicySchema,
     skills: z.array(z.string()).optional(),
     enabled: z.boolean().optional(),
@@ -61,47 +164,100 @@ export const FeishuGroupSchema = z
   })
   .strict();
 
+// Fields shared by the top-level section and each entry under `accounts`.
+// Defaults live on the top-level schema only so per-account overrides stay sparse.
+const FeishuAccountFields = {
+  enabled: z.boolean().optional(),
+  appId: z.string().optional(),
+  appSecret: z.string().optional(),
+  encryptKey: z.string().optional(),
+  verificationToken: z.string().optional(),
+  domain: FeishuDomainSchema.optional(),
+  connectionMode: FeishuConnectionModeSchema.optional(),
+  webhookPath: z.string().optional(),
+  webhookPort: z.number().int().positive().optional(),
+  webhookMaxSkewSec: z.number().int().positive().optional(),
+  capabilities: z.array(z.string()).optional(),
+  markdown: MarkdownConfigSchema,
+  configWrites: z.boolean().optional(),
+  dmPolicy: DmPolicySchema.optional(),
+  allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+  groupPolicy: GroupPolicySchema.optional(),
+  groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+  commandAllowFrom: z.array(z.union([z.string(), z.number()])).optional(), // who may run host commands
+  external: ExternalConfigSchema,
+  botMessages: BotMessagesConfigSchema,
+  requireMention: z.boolean().optional(),
+  mentionAll: z.boolean().optional(), // @all counts as mentioning the bot
+  groups: z.record(z.string(), FeishuGroupSchema.optional()).optional(),
+  threads: ThreadsConfigSchema,
+  historyLimit: z.number().int().min(0).optional(),
+  inboundDebounceMs: z.number().int().min(0).optional(), // merge a sender's quick successive messages into one turn
+  dmHistoryLimit: z.number().int().min(0).optional(),
+  dms: z.record(z.string(), DmConfigSchema).optional(),
+  textChunkLimit: z.number().int().positive().optional(),
+  chunkMode: z.enum(["length", "newline"]).optional(),
+  blockStreamingCoalesce: BlockStreamingCoalesceSchema,
+  mediaMaxMb: z.number().positive().optional(),
+  heartbeat: ChannelHeartbeatVisibilitySchema,
+  dedupe: DedupeConfigSchema,
+  queue: QueueConfigSchema,
+  groupJoin: GroupJoinConfigSchema,
+  cardActions: CardActionsConfigSchema,
+  p2pGreeting: P2pGreetingConfigSchema,
+  mergeForward: MergeForwardConfigSchema,
+  quotedContext: QuotedContextConfigSchema,
+  renderMode: RenderModeSchema, // raw = plain text (default), card = interactive card with markdown
+};
+
+function requireOpenDmWildcard(
+  value: { dmPolicy?: string; allowFrom?: Array<string | number> },
+  ctx: z.RefinementCtx,
+  path: string[],
+) {
+  if (value.dmPolicy !== "open") return;
+  const allowFrom = value.allowFrom ?? [];
+  const hasWildcard = allowFrom.some((entry) => String(entry).trim() === "*");
+  if (!hasWildcard) {
+    const prefix = ["channels.feishu", ...path].join(".");
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, "allowFrom"],
+      message: `${prefix}.dmPolicy="open" requires ${prefix}.allowFrom to include "*"`,
+    });
+  }
+}
+
+export const FeishuAccountConfigSchema = z
+  .object({
+    name: z.string().optional(),
+    ...FeishuAccountFields,
+  })
+  .strict();
+
 export const FeishuConfigSchema = z
   .object({
-    enabled: z.boolean().optional(),
-    appId: z.string().optional(),
-    appSecret: z.string().optional(),
-    encryptKey: z.string().optional(),
-    verificationToken: z.string().optional(),
+    ...FeishuAccountFields,
     domain: FeishuDomainSchema.optional().default("feishu"),
     connectionMode: FeishuConnectionModeSchema.optional().default("websocket"),
     webhookPath: z.string().optional().default("/feishu/events"),
-    webhookPort: z.number().int().positive().optional(),
-    capabilities: z.array(z.string()).optional(),
-    markdown: MarkdownConfigSchema,
-    configWrites: z.boolean().optional(),
     dmPolicy: DmPolicySchema.optional().default("pairing"),
-    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
     groupPolicy: GroupPolicySchema.optional().default("allowlist"),
-    groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
     requireMention: z.boolean().optional().default(true),
-    groups: z.record(z.string(), FeishuGroupSchema.optional()).optional(),
-    historyLimit: z.number().int().min(0).optional(),
-    dmHistoryLimit: z.number().int().min(0).optional(),
-    dms: z.record(z.string(), DmConfigSchema).optional(),
-    textChunkLimit: z.number().int().positive().optional(),
-    chunkMode: z.enum(["length", "newline"]).optional(),
-    blockStreamingCoalesce: BlockStreamingCoalesceSchema,
-    mediaMaxMb: z.number().positive().optional(),
-    heartbeat: ChannelHeartbeatVisibilitySchema,
-    renderMode: RenderModeSchema, // raw = plain text (default), card = interactive card with markdown
+    name: z.string().optional(),
+    accounts: z.record(z.string(), FeishuAccountConfigSchema.optional()).optional(),
+    defaultAccount: z.string().optional(),
   })
   .strict()
   .superRefine((value, ctx) => {
-    if (value.dmPolicy === "open") {
-      const allowFrom = value.allowFrom ?? [];
-      const hasWildcard = allowFrom.some((entry) => String(entry).trim() === "*");
-      if (!hasWildcard) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ["allowFrom"],
-          message: 'channels.feishu.dmPolicy="open" requires channels.feishu.allowFrom to include "*"',
-        });
-      }
+    requireOpenDmWildcard(value, ctx, []);
+    for (const [accountId, account] of Object.entries(value.accounts ?? {})) {
+      if (!account) continue;
+      // Accounts inherit the top-level allowFrom when they do not set their own.
+      requireOpenDmWildcard(
+        { dmPolicy: account.dmPolicy, allowFrom: account.allowFrom ?? value.allowFrom },
+        ctx,
+        ["accounts", accountId],
+      );
     }
   });
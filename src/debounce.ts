@@ -0,0 +1,83 @@
+/**
+ * How an item enters its window: `wait` joins it and restarts the timer, `flush` joins it
+ * and closes it right away, `alone` closes the window without it and then passes the item
+ * on by itself.
+ */
+export type DebounceMode = "wait" | "flush" | "alone";
+
+export type InboundDebouncer<T> = {
+  push(key: string, item: T, mode?: DebounceMode): void;
+  /** Drop waiting items that match; returns how many were removed. */
+  remove(predicate: (item: T) => boolean): number;
+  /** Drop everything still waiting. */
+  clear(): void;
+};
+
+type Window<T> = {
+  items: T[];
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Collect items per key until `windowMs` passes without a new one (or `maxItems` arrive),
+ * then hand them to `onFlush` together, oldest first. A zero window passes every item on
+ * by itself straight away.
+ */
+export function createInboundDebouncer<T>(params: {
+  windowMs: number;
+  maxItems: number;
+  onFlush: (items: T[]) => void;
+}): InboundDebouncer<T> {
+  const windows = new Map<string, Window<T>>();
+
+  const flush = (key: string) => {
+    const window = windows.get(key);
+    if (!window) return;
+    windows.delete(key);
+    clearTimeout(window.timer);
+    if (window.items.length > 0) params.onFlush(window.items);
+  };
+
+  const schedule = (key: string) => {
+    const timer = setTimeout(() => flush(key), params.windowMs);
+    timer.unref?.();
+    return timer;
+  };
+
+  return {
+    push: (key, item, mode = "wait") => {
+      if (params.windowMs <= 0 || mode === "alone") {
+        flush(key);
+        params.onFlush([item]);
+        return;
+      }
+
+      const window = windows.get(key);
+      if (window) {
+        clearTimeout(window.timer);
+        window.items.push(item);
+        window.timer = schedule(key);
+      } else {
+        windows.set(key, { items: [item], timer: schedule(key) });
+      }
+      if (mode === "flush" || windows.get(key)!.items.length >= params.maxItems) flush(key);
+    },
+    remove: (predicate) => {
+      let removed = 0;
+      for (const [key, window] of windows) {
+        const before = window.items.length;
+        window.items = window.items.filter((item) => !predicate(item));
+        removed += before - window.items.length;
+        if (window.items.length === 0) {
+          clearTimeout(window.timer);
+          windows.delete(key);
+        }
+      }
+      return removed;
+    },
+    clear: () => {
+      for (const window of windows.values()) clearTimeout(window.timer);
+      windows.clear();
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FeishuConfig } from "./types.js";
+import { getFeishuRuntime } from "./runtime.js";
+
+const DEFAULT_DEDUPE_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_DEDUPE_ENTRIES = 50_000;
+const FILE_FLUSH_DELAY_MS = 1_000;
+
+/**
+ * Storage for seen delivery keys. Lookups are synchronous so a redelivery arriving while
+ * the first copy is still being handled is caught; persistence happens behind `flush`.
+ */
+export type FeishuDedupeBackend = {
+  get(key: string): number | undefined;
+  set(key: string, expireAt: number): void;
+  prune(now: number): void;
+  flush(): Promise<void>;
+};
+
+export type FeishuDedupeStats = {
+  checked: number;
+  duplicates: number;
+  lastDuplicateAt: number | null;
+  lastDuplicateKey: string | null;
+};
+
+export type FeishuDedupeStore = {
+  /** Record a delivery. Returns true if any of its keys was already seen within the TTL. */
+  isDuplicate(keys: Array<string | undefined>): boolean;
+  stats(): FeishuDedupeStats;
+  close(): Promise<void>;
+};
+
+function createEntryMap(maxEntries: number) {
+  // key -> expiry (ms). Insertion order doubles as age order for eviction.
+  const entries = new Map<string, number>();
+  return {
+    entries,
+    get: (key: string) => entries.get(key),
+    set: (key: string, expireAt: number) => {
+      entries.delete(key);
+      entries.set(key, expireAt);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    prune: (now: number) => {
+      for (const [key, expireAt] of entries) {
+        if (expireAt <= now) entries.delete(key);
+      }
+    },
+  };
+}
+
+export function createMemoryDedupeBackend(maxEntries = MAX_DEDUPE_ENTRIES): FeishuDedupeBackend {
+  const { get, set, prune } = createEntryMap(maxEntries);
+  return { get, set, prune, flush: async () => {} };
+}
+
+/**
+ * Memory backend mirrored to a JSON file so redeliveries are still caught after a restart.
+ * Writes are debounced and go through a temp file + rename.
+ */
+export function createFileDedupeBackend(filePath: string): FeishuDedupeBackend {
+  const memory = createEntryMap(MAX_DEDUPE_ENTRIES);
+  const now = Date.now();
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf8")) as Record<string, number>;
+    for (const [key, expireAt] of Object.entries(raw)) {
+      if (typeof expireAt === "number" && expireAt > now) memory.set(key, expireAt);
+    }
+  } catch {
+    // Missing or unreadable file: start empty.
+  }
+
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const write = async () => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    memory.prune(Date.now());
+    const data = JSON.stringify(Object.fromEntries(memory.entries));
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, data, "utf8");
+    await fs.promises.rename(tmpPath, filePath);
+  };
+
+  const flush = () => {
+    writing = writing.then(write, write);
+    return writing;
+  };
+
+  return {
+    get: memory.get,
+    set: (key, expireAt) => {
+      memory.set(key, expireAt);
+      if (!flushTimer) {
+        flushTimer = setTimeout(() => {
+          void flush().catch((err) => console.error(`feishu: failed to persist dedupe store: ${String(err)}`));
+        }, FILE_FLUSH_DELAY_MS);
+        flushTimer.unref?.();
+      }
+    },
+    prune: memory.prune,
+    flush,
+  };
+}
+
+export function createFeishuDedupeStore(params: {
+  backend?: FeishuDedupeBackend;
+  ttlMs?: number;
+}): FeishuDedupeStore {
+  const backend = params.backend ?? createMemoryDedupeBackend();
+  const ttlMs = params.ttlMs ?? DEFAULT_DEDUPE_TTL_MS;
+  const stats: FeishuDedupeStats = {
+    checked: 0,
+    duplicates: 0,
+    lastDuplicateAt: null,
+    lastDuplicateKey: null,
+  };
+  let lastPruneAt = 0;
+
+  return {
+    isDuplicate: (keys) => {
+      const now = Date.now();
+      if (now - lastPruneAt > 60_000) {
+        backend.prune(now);
+        lastPruneAt = now;
+      }
+      stats.checked += 1;
+
+      const present = keys.filter((key): key is string => Boolean(key));
+      const seen = present.find((key) => {
+        const expireAt = backend.get(key);
+        return expireAt !== undefined && expireAt > now;
+      });
+      // Record every key either way, so a redelivery under a new event id is still caught by message id.
+      for (const key of present) backend.set(key, now + ttlMs);
+
+      if (!seen) return false;
+      stats.duplicates += 1;
+      stats.lastDuplicateAt = now;
+      stats.lastDuplicateKey = seen;
+      return true;
+    },
+    stats: () => ({ ...stats }),
+    close: () => backend.flush(),
+  };
+}
+
+/**
+ * Build the dedupe store an account's config asks for. The file store defaults to
+ * `<stateDir>/feishu/dedupe-<accountId>.json`.
+ */
+export function resolveFeishuDedupeStore(params: {
+  cfg: FeishuConfig;
+  accountId: string;
+}): FeishuDedupeStore {
+  const dedupeCfg = params.cfg.dedupe;
+  const backend =
+    dedupeCfg?.store === "file"
+      ? createFileDedupeBackend(
+          dedupeCfg.path?.trim() ||
+            path.join(getFeishuRuntime().state.resolveStateDir(), "feishu", `dedupe-${params.accountId}.json`),
+        )
+      : createMemoryDedupeBackend();
+  return createFeishuDedupeStore({
+    backend,
+    ttlMs: dedupeCfg?.ttlSec ? dedupeCfg.ttlSec * 1000 : undefined,
+  });
+}
@@ -0,0 +1,163 @@
+import path from "node:path";
+import type { ClawdbotConfig, RuntimeEnv } from "openclaw/plugin-sdk";
+import { resolveFeishuAccount } from "./accounts.js";
+import { createFileDedupeBackend, type FeishuDedupeBackend } from "./dedupe.js";
+import { readFeishuPairedUsers, requestFeishuPairing } from "./pairing.js";
+import { resolveFeishuAllowlistMatch } from "./policy.js";
+import { getFeishuRuntime } from "./runtime.js";
+import { buildMarkdownCard, sendCardFeishu } from "./send.js";
+import type { FeishuConfig } from "./types.js";
+
+export type FeishuP2pChatEnteredEvent = {
+  chat_id: string;
+  operator_id?: {
+    open_id?: string;
+    user_id?: string;
+    union_id?: string;
+  };
+  last_message_id?: string;
+  last_message_create_time?: string;
+};
+
+const DEFAULT_GREETING_TITLE = "👋 Hi there!";
+const DEFAULT_GREETING_TEXT = [
+  "Here's what I can do:",
+  "- Answer questions and help with writing, code and research — just type a message",
+  "- Read the images, files and audio you send me",
+  "- Join group chats: add me to a group and @mention me there",
+  "- Send `/new` to start a fresh conversation",
+].join("\n");
+
+// Opening the chat again without writing shouldn't repeat the greeting, across restarts too.
+// The store caps its entries, so a flood of first contacts can't grow it without bound.
+const GREETED_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const greetedStores = new Map<string, FeishuDedupeBackend>();
+
+/** Users greeted on this account, kept in `<stateDir>/feishu/greeted-<accountId>.json`. */
+function resolveGreetedStore(accountId: string): FeishuDedupeBackend {
+  let store = greetedStores.get(accountId);
+  if (!store) {
+    const stateDir = getFeishuRuntime().state.resolveStateDir();
+    store = createFileDedupeBackend(path.join(stateDir, "feishu", `greeted-${accountId}.json`));
+    greetedStores.set(accountId, store);
+  }
+  return store;
+}
+
+/**
+ * Greeting card for a user opening the bot's DM. Shows the pairing block instead of
+ * leaving them to discover it on their first message.
+ */
+function buildGreetingCard(params: {
+  greetingCfg: FeishuConfig["p2pGreeting"];
+  pairingText?: string;
+}): Record<string, unknown> {
+  const { greetingCfg, pairingText } = params;
+  const elements: Record<string, unknown>[] = [
+    { tag: "markdown", content: greetingCfg?.text?.trim() || DEFAULT_GREETING_TEXT },
+  ];
+  if (pairingText) {
+    elements.push({ tag: "hr" }, { tag: "markdown", content: pairingText });
+  }
+  return {
+    config: { wide_screen_mode: true },
+    header: {
+      title: { tag: "plain_text", content: greetingCfg?.title?.trim() || DEFAULT_GREETING_TITLE },
+      template: "blue",
+    },
+    elements,
+  };
+}
+
+/**
+ * Whether the user can talk to the bot yet. Under `pairing` an unknown user gets a
+ * pairing request whose code goes into the greeting.
+ */
+async function resolveDmAccess(params: {
+  feishuCfg: FeishuConfig;
+  accountId: string;
+  openId: string;
+  runtime?: RuntimeEnv;
+}): Promise<{ allowed: boolean; pairingText?: string }> {
+  const { feishuCfg, accountId, openId, runtime } = params;
+  const dmPolicy = feishuCfg.dmPolicy ?? "pairing";
+  if (dmPolicy === "open") return { allowed: true };
+
+  const storeAllowFrom = dmPolicy === "pairing" ? await readFeishuPairedUsers(accountId) : [];
+  const match = resolveFeishuAllowlistMatch({
+    allowFrom: [...(feishuCfg.allowFrom ?? []), ...storeAllowFrom],
+    senderId: openId,
+  });
+  if (match.allowed) return { allowed: true };
+  if (dmPolicy !== "pairing") return { allowed: false };
+
+  try {
+    // Null inside the reply cooldown: they were sent a code moments ago.
+    const pairingText = await requestFeishuPairing({ accountId, openId });
+    return { allowed: false, pairingText: pairingText ?? undefined };
+  } catch (err) {
+    runtime?.error?.(`feishu: failed to create pairing request for ${openId}: ${String(err)}`);
+    return { allowed: false };
+  }
+}
+
+/**
+ * Send the greeting card the first time a user opens a DM with the bot.
+ */
+export async function handleFeishuP2pChatEntered(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  event: FeishuP2pChatEnteredEvent;
+  runtime?: RuntimeEnv;
+}): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+  const greetingCfg = feishuCfg.p2pGreeting;
+  const openId = event.operator_id?.open_id;
+  if (greetingCfg?.enabled === false || !openId) return;
+
+  const greeted = resolveGreetedStore(accountId);
+  const greetedUntil = greeted.get(openId);
+  if (greetedUntil !== undefined && greetedUntil > Date.now()) return;
+
+  const core = getFeishuRuntime();
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "feishu",
+    accountId,
+    peer: { kind: "dm", id: openId },
+  });
+  // Under the default `session.dmScope` every DM shares the agent's main session, which says
+  // nothing about this user; only a per-peer session marks them as a returning user.
+  if (route.sessionKey !== route.mainSessionKey) {
+    const storePath = core.channel.session.resolveStorePath(cfg.session?.store, { agentId: route.agentId });
+    if (core.channel.session.readSessionUpdatedAt({ storePath, sessionKey: route.sessionKey })) {
+      // Returning user; they already know what the bot does.
+      greeted.set(openId, Date.now() + GREETED_TTL_MS);
+      return;
+    }
+  }
+
+  const { allowed, pairingText } = await resolveDmAccess({ feishuCfg, accountId, openId, runtime });
+  if (!allowed && !pairingText) {
+    // Not on the allowlist and no code to hand out (allowlist policy, or one was just sent).
+    log(`feishu[${accountId}]: not greeting ${openId}, not allowed to DM`);
+    return;
+  }
+
+  const card = greetingCfg?.card ?? buildGreetingCard({ greetingCfg, pairingText });
+
+  await sendCardFeishu({ cfg, accountId, to: event.chat_id, card });
+  // A custom card has no pairing block, so the code goes out as a follow-up card.
+  if (greetingCfg?.card && pairingText) {
+    await sendCardFeishu({
+      cfg,
+      accountId,
+      to: event.chat_id,
+      card: buildMarkdownCard(pairingText),
+    });
+  }
+  greeted.set(openId, Date.now() + GREETED_TTL_MS);
+  log(`feishu[${accountId}]: sent greeting to ${openId}${pairingText ? " with pairing code" : ""}`);
+}
@@ -0,0 +1,105 @@
+import type { FeishuConfig } from "./types.js";
+
+const DEFAULT_MAX_CONSECUTIVE_BOT_TURNS = 3;
+const DEFAULT_BOT_TURN_WINDOW_MS = 10 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60_000;
+const MAX_SENDER_APP_IDS = 1_000;
+
+type ChatTurns = {
+  /** When the bot answered another bot, within the window. */
+  botTurns: number[];
+  lastHumanAt: number;
+  windowMs: number;
+};
+
+// Keyed by account + chat. Only chats that bots talk in get an entry, and only while
+// their window still holds bot turns.
+const chatTurns = new Map<string, ChatTurns>();
+let lastPruneAt = 0;
+
+// Sender id -> app id of the bot behind it. Insertion order doubles as age order for eviction.
+const senderAppIds = new Map<string, string>();
+
+/**
+ * Whether a message from another app's bot may be handled at all:
+ * `ignore` (default) drops them, `allowlist` takes the bots in `allowFrom`, `allow` takes any.
+ * `allowFrom` lists app ids (`cli_…`) or the bots' open_id/user_id/union_id. Events don't carry
+ * the sender's app id, so `resolveAppId` looks it up; it's only called when no other id matched.
+ */
+export async function isFeishuBotSenderAllowed(
+  cfg: FeishuConfig | undefined,
+  senderIds: string[],
+  resolveAppId?: () => Promise<string | undefined>,
+): Promise<boolean> {
+  const botCfg = cfg?.botMessages;
+  const policy = botCfg?.policy ?? "ignore";
+  if (policy === "allow") return true;
+  if (policy === "ignore") return false;
+  const allowFrom = (botCfg?.allowFrom ?? []).map((entry) => entry.trim().toLowerCase());
+  if (senderIds.some((id) => id && allowFrom.includes(id.toLowerCase()))) return true;
+  if (!resolveAppId || !allowFrom.some((entry) => entry.startsWith("cli_"))) return false;
+
+  const cacheKey = senderIds[0];
+  let appId = cacheKey ? senderAppIds.get(cacheKey) : undefined;
+  if (!appId) {
+    appId = await resolveAppId().catch(() => undefined);
+    if (appId && cacheKey) {
+      senderAppIds.set(cacheKey, appId);
+      if (senderAppIds.size > MAX_SENDER_APP_IDS) {
+        const oldest = senderAppIds.keys().next().value;
+        if (oldest !== undefined) senderAppIds.delete(oldest);
+      }
+    }
+  }
+  return Boolean(appId && allowFrom.includes(appId.toLowerCase()));
+}
+
+/** Drop chats whose window no longer holds any bot turn. */
+function pruneChatTurns(now: number) {
+  if (now - lastPruneAt < PRUNE_INTERVAL_MS) return;
+  lastPruneAt = now;
+  for (const [key, turns] of chatTurns) {
+    turns.botTurns = turns.botTurns.filter((at) => now - at < turns.windowMs);
+    if (turns.botTurns.length === 0) chatTurns.delete(key);
+  }
+}
+
+/** A person spoke in the chat; the bot-to-bot streak is over. */
+export function recordFeishuHumanTurn(accountId: string, chatId: string): void {
+  const turns = chatTurns.get(`${accountId}:${chatId}`);
+  if (turns) turns.lastHumanAt = Date.now();
+}
+
+/**
+ * Claim a turn for answering another bot. Refused after `maxConsecutive` bot turns with no
+ * person speaking in between, or once `turnBudget` bot turns were spent within the window.
+ */
+export function claimFeishuBotTurn(params: {
+  cfg?: FeishuConfig;
+  accountId: string;
+  chatId: string;
+}): { allowed: true } | { allowed: false; reason: string } {
+  const { cfg, accountId, chatId } = params;
+  const botCfg = cfg?.botMessages;
+  const windowMs = (botCfg?.windowSec ?? 0) * 1000 || DEFAULT_BOT_TURN_WINDOW_MS;
+  const maxConsecutive = botCfg?.maxConsecutive ?? DEFAULT_MAX_CONSECUTIVE_BOT_TURNS;
+  const now = Date.now();
+  pruneChatTurns(now);
+
+  const key = `${accountId}:${chatId}`;
+  const turns = chatTurns.get(key) ?? { botTurns: [], lastHumanAt: 0, windowMs };
+  turns.windowMs = windowMs;
+  turns.botTurns = turns.botTurns.filter((at) => now - at < windowMs);
+  chatTurns.set(key, turns);
+
+  const consecutive = turns.botTurns.filter((at) => at > turns.lastHumanAt).length;
+  if (consecutive >= maxConsecutive) {
+    return { allowed: false, reason: `${consecutive} bot turns in a row in ${chatId}, looks like a bot loop` };
+  }
+  if (botCfg?.turnBudget && turns.botTurns.length >= botCfg.turnBudget) {
+    return { allowed: false, reason: `bot turn budget (${botCfg.turnBudget}) for ${chatId} used up` };
+  }
+
+  turns.botTurns.push(now);
+  return { allowed: true };
+}
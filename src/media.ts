@@ -1,6 +1,6 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccountConfig } from "./accounts.js";
 import { resolveReceiveIdType, normalizeFeishuTarget } from "./targets.js";
 import fs from "fs";
 import path from "path";
@@ -24,14 +24,11 @@ export type DownloadMessageResourceResult = {
  */
 export async function downloadImageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   imageKey: string;
 }): Promise<DownloadImageResult> {
-  const { cfg, imageKey } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, imageKey } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   const response = await client.im.image.get({
@@ -100,16 +97,13 @@ export async function downloadImageFeishu(params: {
  */
 export async function downloadMessageResourceFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   fileKey: string;
   type: "image" | "file";
 }): Promise<DownloadMessageResourceResult> {
-  const { cfg, messageId, fileKey, type } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, fileKey, type } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   const response = await client.im.messageResource.get({
@@ -194,15 +188,12 @@ export type SendMediaResult = {
  */
 export async function uploadImageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   image: Buffer | string; // Buffer or file path
   imageType?: "message" | "avatar";
 }): Promise<UploadImageResult> {
-  const { cfg, image, imageType = "message" } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, image, imageType = "message" } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   // SDK expects a Readable stream, not a Buffer
@@ -238,17 +229,14 @@ export async function uploadImageFeishu(params: {
  */
 export async function uploadFileFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   file: Buffer | string; // Buffer or file path
   fileName: string;
   fileType: "opus" | "mp4" | "pdf" | "doc" | "xls" | "ppt" | "stream";
   duration?: number; // Required for audio/video files, in milliseconds
 }): Promise<UploadFileResult> {
-  const { cfg, file, fileName, fileType, duration } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, file, fileName, fileType, duration } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   // SDK expects a Readable stream, not a Buffer
@@ -284,16 +272,14 @@ export async function uploadFileFeishu(params: {
  */
 export async function sendImageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   imageKey: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, imageKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, imageKey, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -309,6 +295,7 @@ export async function sendImageFeishu(params: {
       data: {
         content,
         msg_type: "image",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -346,16 +333,14 @@ export async function sendImageFeishu(params: {
  */
 export async function sendFileFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   fileKey: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, fileKey, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -371,6 +356,7 @@ export async function sendFileFeishu(params: {
       data: {
         content,
         msg_type: "file",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -409,16 +395,14 @@ export async function sendFileFeishu(params: {
  */
 export async function sendAudioFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   fileKey: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, fileKey, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -434,6 +418,7 @@ export async function sendAudioFeishu(params: {
       data: {
         content,
         msg_type: "audio",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -473,17 +458,15 @@ export async function sendAudioFeishu(params: {
  */
 export async function sendVideoFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   fileKey: string;
   imageKey?: string; // Optional thumbnail image_key
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, imageKey, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, fileKey, imageKey, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -504,6 +487,7 @@ export async function sendVideoFeishu(params: {
       data: {
         content,
         msg_type: "media",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -589,13 +573,15 @@ function isLocalPath(urlOrPath: string): boolean {
  */
 export async function sendMediaFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   mediaUrl?: string;
   mediaBuffer?: Buffer;
   fileName?: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<SendMediaResult> {
-  const { cfg, to, mediaUrl, mediaBuffer, fileName, replyToMessageId } = params;
+  const { cfg, accountId, to, mediaUrl, mediaBuffer, fileName, replyToMessageId, replyInThread } = params;
 
   let buffer: Buffer;
   let name: string;
@@ -633,12 +619,13 @@ export async function sendMediaFeishu(params: {
   const isImage = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".ico", ".tiff"].includes(ext);
 
   if (isImage) {
-    const { imageKey } = await uploadImageFeishu({ cfg, image: buffer });
-    return sendImageFeishu({ cfg, to, imageKey, replyToMessageId });
+    const { imageKey } = await uploadImageFeishu({ cfg, accountId, image: buffer });
+    return sendImageFeishu({ cfg, accountId, to, imageKey, replyToMessageId, replyInThread });
   } else {
     const fileType = detectFileType(name);
     const { fileKey } = await uploadFileFeishu({
       cfg,
+      accountId,
       file: buffer,
       fileName: name,
       fileType,
@@ -646,11 +633,11 @@ export async function sendMediaFeishu(params: {
 
     // Route based on file type to use correct msg_type
     if (fileType === "opus") {
-      return sendAudioFeishu({ cfg, to, fileKey, replyToMessageId });
+      return sendAudioFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
     } else if (fileType === "mp4") {
-      return sendVideoFeishu({ cfg, to, fileKey, replyToMessageId });
+      return sendVideoFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
     } else {
-      return sendFileFeishu({ cfg, to, fileKey, replyToMessageId });
+      return sendFileFeishu({ cfg, accountId, to, fileKey, replyToMessageId, replyInThread });
     }
   }
 }
@@ -661,16 +648,13 @@ export async function sendMediaFeishu(params: {
  */
 export async function downloadFeishuFile(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   fileKey: string;
   fileType?: "image" | "audio" | "video" | "file";
 }): Promise<Buffer> {
-  const { cfg, messageId, fileKey, fileType = "file" } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, fileKey, fileType = "file" } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   // Use messageResource.get to download the file from a message
@@ -709,13 +693,15 @@ export type DownloadedMedia = {
  */
 export async function downloadFeishuImage(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   imageKey: string;
 }): Promise<DownloadedMedia> {
-  const { cfg, messageId, imageKey } = params;
+  const { cfg, accountId, messageId, imageKey } = params;
 
   const buffer = await downloadFeishuFile({
     cfg,
+    accountId,
     messageId,
     fileKey: imageKey,
     fileType: "image",
@@ -752,13 +738,15 @@ export async function downloadFeishuImage(params: {
  */
 export async function downloadFeishuVideo(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   fileKey: string;
 }): Promise<DownloadedMedia> {
-  const { cfg, messageId, fileKey } = params;
+  const { cfg, accountId, messageId, fileKey } = params;
 
   const buffer = await downloadFeishuFile({
     cfg,
+    accountId,
     messageId,
     fileKey,
     fileType: "video",
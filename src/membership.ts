@@ -0,0 +1,158 @@
+import type { ClawdbotConfig, RuntimeEnv } from "openclaw/plugin-sdk";
+import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
+import type { FeishuConfig } from "./types.js";
+import type { FeishuBotAddedEvent } from "./bot.js";
+import { resolveFeishuAccount } from "./accounts.js";
+import { getFeishuRuntime } from "./runtime.js";
+import { sendCardFeishu, sendMessageFeishu } from "./send.js";
+
+export type FeishuBotRemovedEvent = FeishuBotAddedEvent;
+
+function describeChat(event: FeishuBotAddedEvent): string {
+  const label = event.name?.trim() ? `"${event.name.trim()}" (${event.chat_id})` : event.chat_id;
+  return event.external ? `${label} [external]` : label;
+}
+
+function describeOperator(event: FeishuBotAddedEvent): string {
+  return event.operator_id?.open_id || event.operator_id?.user_id || "unknown";
+}
+
+/**
+ * Add the chat to the account's `groupAllowFrom` and give it a `groups` entry.
+ * Writes go to `accounts.<id>` for named accounts and to the top level otherwise.
+ */
+function withGroupAllowed(cfg: ClawdbotConfig, accountId: string, chatId: string): ClawdbotConfig | null {
+  const feishuCfg = (cfg.channels?.feishu ?? {}) as FeishuConfig;
+  const effective = resolveFeishuAccount({ cfg, accountId }).config;
+  const allowFrom = (effective.groupAllowFrom ?? []).map(String);
+  const hasGroupEntry = Boolean(effective.groups?.[chatId]);
+  if (allowFrom.includes(chatId) && hasGroupEntry) return null;
+
+  const patch = {
+    groupAllowFrom: allowFrom.includes(chatId) ? allowFrom : [...allowFrom, chatId],
+    groups: hasGroupEntry ? effective.groups : { ...effective.groups, [chatId]: {} },
+  };
+
+  const useAccountSection = accountId !== DEFAULT_ACCOUNT_ID || Boolean(feishuCfg.accounts?.[accountId]);
+  const nextFeishu: FeishuConfig = useAccountSection
+    ? {
+        ...feishuCfg,
+        accounts: {
+          ...feishuCfg.accounts,
+          [accountId]: { ...feishuCfg.accounts?.[accountId], ...patch },
+        },
+      }
+    : { ...feishuCfg, ...patch };
+
+  return { ...cfg, channels: { ...cfg.channels, feishu: nextFeishu } };
+}
+
+async function notifyOwner(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  target?: string;
+  text: string;
+  runtime?: RuntimeEnv;
+}) {
+  const target = params.target?.trim();
+  if (!target) return;
+  try {
+    await sendMessageFeishu({ cfg: params.cfg, accountId: params.accountId, to: target, text: params.text });
+  } catch (err) {
+    params.runtime?.error?.(`feishu[${params.accountId}]: failed to notify ${target}: ${String(err)}`);
+  }
+}
+
+export async function handleFeishuBotAdded(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  event: FeishuBotAddedEvent;
+  runtime?: RuntimeEnv;
+}): Promise<void> {
+  const { cfg, accountId, event, runtime } = params;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+  const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+  const joinCfg = feishuCfg.groupJoin;
+  // External groups the bot won't answer in get no welcome, and `deny` ones aren't allowed.
+  const externalMode = event.external ? (feishuCfg.external?.groups ?? "allow") : "allow";
+
+  log(`feishu[${accountId}]: bot added to chat ${describeChat(event)} by ${describeOperator(event)}`);
+
+  try {
+    if (externalMode === "deny" || externalMode === "readonly") {
+      log(`feishu[${accountId}]: not welcoming external group ${event.chat_id} (external.groups=${externalMode})`);
+    } else if (joinCfg?.welcomeCard) {
+      await sendCardFeishu({ cfg, accountId, to: event.chat_id, card: joinCfg.welcomeCard });
+    } else if (joinCfg?.welcomeMessage?.trim()) {
+      await sendMessageFeishu({ cfg, accountId, to: event.chat_id, text: joinCfg.welcomeMessage });
+    }
+  } catch (err) {
+    error(`feishu[${accountId}]: failed to send welcome message to ${event.chat_id}: ${String(err)}`);
+  }
+
+  let allowed = false;
+  if (joinCfg?.autoAllow && externalMode !== "deny") {
+    allowed = await allowJoinedGroup({ accountId, chatId: event.chat_id, runtime });
+  }
+
+  await notifyOwner({
+    cfg,
+    accountId,
+    target: joinCfg?.notifyTarget,
+    text:
+      `Bot added to group ${describeChat(event)} by ${describeOperator(event)}.` +
+      (allowed ? " The group was added to groupAllowFrom." : ""),
+    runtime,
+  });
+}
+
+async function allowJoinedGroup(params: {
+  accountId: string;
+  chatId: string;
+  runtime?: RuntimeEnv;
+}): Promise<boolean> {
+  const { accountId, chatId, runtime } = params;
+  const core = getFeishuRuntime();
+  try {
+    // Re-read from disk so we don't write back a stale snapshot.
+    const current = core.config.loadConfig();
+    const feishuCfg = resolveFeishuAccount({ cfg: current, accountId }).config;
+    if (feishuCfg.configWrites === false) {
+      runtime?.log?.(`feishu[${accountId}]: configWrites disabled, not adding ${chatId} to groupAllowFrom`);
+      return false;
+    }
+    const next = withGroupAllowed(current, accountId, chatId);
+    if (!next) return true;
+    await core.config.writeConfigFile(next);
+    runtime?.log?.(`feishu[${accountId}]: added ${chatId} to groupAllowFrom`);
+    return true;
+  } catch (err) {
+    runtime?.error?.(`feishu[${accountId}]: failed to update config for ${chatId}: ${String(err)}`);
+    return false;
+  }
+}
+
+export async function handleFeishuBotRemoved(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  event: FeishuBotRemovedEvent;
+  runtime?: RuntimeEnv;
+  /** Drops everything the monitor holds for the chat (pending history, queued messages). */
+  forgetChat: (chatId: string) => void;
+}): Promise<void> {
+  const { cfg, accountId, event, runtime, forgetChat } = params;
+  const log = runtime?.log ?? console.log;
+  const joinCfg = resolveFeishuAccount({ cfg, accountId }).config.groupJoin;
+
+  log(`feishu[${accountId}]: bot removed from chat ${describeChat(event)} by ${describeOperator(event)}`);
+  forgetChat(event.chat_id);
+
+  await notifyOwner({
+    cfg,
+    accountId,
+    target: joinCfg?.notifyTarget,
+    text: `Bot removed from group ${describeChat(event)} by ${describeOperator(event)}.`,
+    runtime,
+  });
+}
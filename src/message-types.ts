@@ -0,0 +1,176 @@
+import { formatLocationText, toLocationContext } from "openclaw/plugin-sdk";
+import { createFeishuClient } from "./client.js";
+import { convertFeishuPostToMarkdown } from "./post.js";
+import type { FeishuConfig } from "./types.js";
+
+/**
+ * Message types that aren't text or media: shared chats/users, locations, tasks,
+ * calendar events, system notices and red packets.
+ */
+const SPECIAL_MESSAGE_TYPES = new Set([
+  "share_chat",
+  "share_user",
+  "location",
+  "todo",
+  "share_calendar_event",
+  "calendar",
+  "general_calendar",
+  "system",
+  "hongbao",
+]);
+
+export type FeishuSpecialMessage = {
+  /** Agent-facing text. */
+  text: string;
+  /** Structured fields merged into the inbound context. */
+  context: Record<string, unknown>;
+};
+
+export function isFeishuSpecialMessageType(messageType: string): boolean {
+  return SPECIAL_MESSAGE_TYPES.has(messageType);
+}
+
+function formatTimestamp(value: unknown): string | undefined {
+  const ms = Number(value);
+  if (!Number.isFinite(ms) || ms <= 0) return undefined;
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Render a special message from its parsed content. Names that need an API lookup are
+ * passed in; without them the raw ids are shown.
+ */
+export function describeFeishuSpecialMessage(
+  messageType: string,
+  parsed: Record<string, any>,
+  names: { chatName?: string; userName?: string } = {},
+): FeishuSpecialMessage {
+  switch (messageType) {
+    case "share_chat": {
+      const chatId = parsed.chat_id ?? "";
+      const label = names.chatName ? `${names.chatName} (${chatId})` : chatId;
+      return {
+        text: `[Shared group: ${label}]`,
+        context: { FeishuSharedChatId: chatId, FeishuSharedChatName: names.chatName },
+      };
+    }
+    case "share_user": {
+      const userId = parsed.user_id ?? "";
+      const label = names.userName ? `${names.userName} (${userId})` : userId;
+      return {
+        text: `[Shared contact: ${label}]`,
+        context: { FeishuSharedUserId: userId, FeishuSharedUserName: names.userName },
+      };
+    }
+    case "location": {
+      const latitude = parseFloat(parsed.latitude);
+      const longitude = parseFloat(parsed.longitude);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        return { text: `[Location${parsed.name ? `: ${parsed.name}` : ""}]`, context: {} };
+      }
+      const location = { latitude, longitude, name: parsed.name || undefined };
+      return { text: formatLocationText(location), context: toLocationContext(location) };
+    }
+    case "todo": {
+      const title = parsed.summary?.title?.trim() || "";
+      let details = "";
+      try {
+        details = parsed.summary ? convertFeishuPostToMarkdown(parsed.summary).markdown : "";
+      } catch {
+        // Title alone is still useful
+      }
+      const due = formatTimestamp(parsed.due_time);
+      const lines = [`[Task] ${title || "(untitled)"}`];
+      // The converter repeats the title as a heading; keep only the body.
+      const body = details.replace(/^# .*\n*/, "").trim();
+      if (body) lines.push(body);
+      if (due) lines.push(`Due: ${due}`);
+      return {
+        text: lines.join("\n"),
+        context: { FeishuTodoTaskId: parsed.task_id, FeishuTodoTitle: title || undefined, FeishuTodoDue: due },
+      };
+    }
+    case "share_calendar_event":
+    case "calendar":
+    case "general_calendar": {
+      const summary = parsed.summary || "(untitled)";
+      const start = formatTimestamp(parsed.start_time);
+      const end = formatTimestamp(parsed.end_time);
+      const lines = [`[Calendar event] ${summary}`];
+      if (start) lines.push(`Start: ${start}`);
+      if (end) lines.push(`End: ${end}`);
+      return {
+        text: lines.join("\n"),
+        context: { FeishuCalendarSummary: summary, FeishuCalendarStart: start, FeishuCalendarEnd: end },
+      };
+    }
+    case "system": {
+      // e.g. { template: "{from_user} invited {to_chatters} to this chat.", from_user: ["A"], to_chatters: ["B"] }
+      const template: string = parsed.template ?? "";
+      const text = template.replace(/\{(\w+)\}/g, (_, key: string) => {
+        const value = parsed[key];
+        return Array.isArray(value) ? value.join(", ") : String(value ?? "");
+      });
+      return { text: `[System] ${text.trim() || "notification"}`, context: { FeishuSystemTemplate: template } };
+    }
+    case "hongbao":
+      return { text: `[Red packet]${parsed.text ? ` ${parsed.text}` : ""}`, context: {} };
+    default:
+      return { text: JSON.stringify(parsed), context: {} };
+  }
+}
+
+// Shared chat names rarely change; cache them like sender names, per account + chat.
+const CHAT_NAME_TTL_MS = 10 * 60 * 1000;
+const chatNameCache = new Map<string, { name: string; expireAt: number }>();
+
+async function resolveChatName(
+  feishuCfg: FeishuConfig,
+  accountId: string,
+  chatId: string,
+): Promise<string | undefined> {
+  const key = `${accountId}:${chatId}`;
+  const cached = chatNameCache.get(key);
+  const now = Date.now();
+  if (cached && cached.expireAt > now) return cached.name;
+
+  const client = createFeishuClient(feishuCfg);
+  const res: any = await client.im.chat.get({ path: { chat_id: chatId } });
+  const name: string | undefined = res?.code === 0 ? res.data?.name : undefined;
+  if (name) chatNameCache.set(key, { name, expireAt: now + CHAT_NAME_TTL_MS });
+  return name;
+}
+
+/**
+ * Like describeFeishuSpecialMessage, but looks up the names of shared chats and users first.
+ * Lookups are best-effort; failures fall back to ids.
+ */
+export async function resolveFeishuSpecialMessage(params: {
+  feishuCfg: FeishuConfig;
+  accountId: string;
+  messageType: string;
+  content: string;
+  resolveUserName: (openId: string) => Promise<string | undefined>;
+  log: (...args: any[]) => void;
+}): Promise<FeishuSpecialMessage> {
+  const { feishuCfg, accountId, messageType, content, resolveUserName, log } = params;
+  let parsed: Record<string, any>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { text: content, context: {} };
+  }
+
+  const names: { chatName?: string; userName?: string } = {};
+  try {
+    if (messageType === "share_chat" && parsed.chat_id) {
+      names.chatName = await resolveChatName(feishuCfg, accountId, parsed.chat_id);
+    } else if (messageType === "share_user" && parsed.user_id) {
+      names.userName = await resolveUserName(parsed.user_id);
+    }
+  } catch (err) {
+    log(`feishu: failed to resolve name for ${messageType}: ${String(err)}`);
+  }
+
+  return describeFeishuSpecialMessage(messageType, parsed, names);
+}
@@ -1,20 +1,84 @@
 import * as Lark from "@larksuiteoapi/node-sdk";
 import type { ClawdbotConfig, RuntimeEnv, HistoryEntry } from "openclaw/plugin-sdk";
 import type { FeishuConfig } from "./types.js";
-import { createFeishuWSClient, createEventDispatcher } from "./client.js";
-import { resolveFeishuCredentials } from "./accounts.js";
-import { handleFeishuMessage, type FeishuMessageEvent, type FeishuBotAddedEvent } from "./bot.js";
+import {
+  closeFeishuWSClient,
+  connectFeishuWSClient,
+  createEventDispatcher,
+  createFeishuWSClient,
+  getFeishuWebhookVerifier,
+  recordFeishuWebhookRejection,
+  type FeishuWSSocket,
+} from "./client.js";
+import { resolveFeishuAccount, resolveFeishuCredentials } from "./accounts.js";
+import {
+  handleFeishuMessage,
+  canMergeFeishuMessageEvents,
+  resolveFeishuDebounceMode,
+  type FeishuMessageEvent,
+  type FeishuBotAddedEvent,
+  type FeishuMessageRecalledEvent,
+} from "./bot.js";
 import { probeFeishu } from "./probe.js";
+import {
+  handleFeishuCardAction,
+  parseFeishuCardAction,
+  type FeishuCardAction,
+  type FeishuCardActionEvent,
+} from "./card-action.js";
+import { resolveFeishuDedupeStore, type FeishuDedupeStats, type FeishuDedupeStore } from "./dedupe.js";
+import { handleFeishuBotAdded, handleFeishuBotRemoved, type FeishuBotRemovedEvent } from "./membership.js";
+import { handleFeishuP2pChatEntered, type FeishuP2pChatEnteredEvent } from "./greeting.js";
+import { createChatQueue, type ChatQueueStats } from "./queue.js";
+import { createInboundDebouncer } from "./debounce.js";
+import { getFeishuRuntime } from "./runtime.js";
+import { normalizeWebhookPath, startFeishuWebhookTarget } from "./webhook.js";
 
 export type MonitorFeishuOpts = {
   config?: ClawdbotConfig;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
   accountId?: string;
+  /** Gateway status sink; receives connection state changes as they happen. */
+  setStatus?: (status: FeishuMonitorStatus) => void;
 };
 
-let currentWsClient: Lark.WSClient | null = null;
-let botOpenId: string | undefined;
+export type FeishuConnectionState = "connecting" | "connected" | "reconnecting" | "closed";
+
+export type FeishuMonitorStatus = {
+  running?: boolean;
+  connected?: boolean;
+  connectionState?: FeishuConnectionState;
+  reconnectAttempts?: number;
+  lastConnectedAt?: number | null;
+  lastError?: string | null;
+  dedupe?: FeishuDedupeStats;
+  queue?: ChatQueueStats;
+};
+
+const DEFAULT_QUEUE_MAX_CONCURRENT = 4;
+const DEFAULT_QUEUE_MAX_PER_CHAT = 20;
+const DEBOUNCE_MAX_MESSAGES = 10;
+
+type WSConnection = { close: () => void };
+
+// Card actions share the per-chat queue with messages so a click is handled in order
+// with whatever else is going on in that chat.
+type InboundItem =
+  | { kind: "message"; event: FeishuMessageEvent; burst?: FeishuMessageEvent[] }
+  | { kind: "card_action"; action: FeishuCardAction };
+
+// The newest message is the one replied to; earlier ones ride along as its burst.
+function toMessageItem(events: FeishuMessageEvent[]): InboundItem {
+  return {
+    kind: "message",
+    event: events[events.length - 1],
+    burst: events.length > 1 ? events.slice(0, -1) : undefined,
+  };
+}
+
+// Active WebSocket connections keyed by accountId, so each account can be stopped independently.
+const wsConnections = new Map<string, WSConnection>();
 
 async function fetchBotOpenId(cfg: FeishuConfig): Promise<string | undefined> {
   try {
@@ -25,127 +89,511 @@ async function fetchBotOpenId(cfg: FeishuConfig): Promise<string | undefined> {
   }
 }
 
+const BOT_ID_RETRY_BASE_MS = 5_000;
+const BOT_ID_RETRY_MAX_MS = 5 * 60_000;
+
+/**
+ * Resolve the bot's open_id, retrying with backoff until it succeeds. Until then mentions
+ * can't be attributed to the bot, so group messages that require a mention are not answered.
+ */
+async function watchBotOpenId(params: {
+  feishuCfg: FeishuConfig;
+  accountId: string;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+}): Promise<() => string | undefined> {
+  const { feishuCfg, accountId, runtime, abortSignal } = params;
+  const log = runtime?.log ?? console.log;
+
+  let botOpenId = await fetchBotOpenId(feishuCfg);
+  log(`feishu[${accountId}]: bot open_id resolved: ${botOpenId ?? "unknown"}`);
+  if (botOpenId) return () => botOpenId;
+
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const retry = () => {
+    const delay = Math.min(BOT_ID_RETRY_MAX_MS, BOT_ID_RETRY_BASE_MS * 2 ** attempt);
+    attempt += 1;
+    timer = setTimeout(async () => {
+      timer = null;
+      botOpenId = await fetchBotOpenId(feishuCfg);
+      if (abortSignal?.aborted) return;
+      if (botOpenId) {
+        log(`feishu[${accountId}]: bot open_id resolved on retry ${attempt}: ${botOpenId}`);
+        return;
+      }
+      retry();
+    }, delay);
+  };
+  if (!abortSignal?.aborted) retry();
+  abortSignal?.addEventListener(
+    "abort",
+    () => {
+      if (timer) clearTimeout(timer);
+    },
+    { once: true },
+  );
+
+  return () => botOpenId;
+}
+
 export async function monitorFeishuProvider(opts: MonitorFeishuOpts = {}): Promise<void> {
   const cfg = opts.config;
   if (!cfg) {
     throw new Error("Config is required for Feishu monitor");
   }
 
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
+  const account = resolveFeishuAccount({ cfg, accountId: opts.accountId });
+  const feishuCfg = account.config;
   const creds = resolveFeishuCredentials(feishuCfg);
   if (!creds) {
-    throw new Error("Feishu credentials not configured (appId, appSecret required)");
+    throw new Error(
+      `Feishu credentials not configured for account "${account.accountId}" (appId, appSecret required)`,
+    );
   }
 
-  const log = opts.runtime?.log ?? console.log;
-  const error = opts.runtime?.error ?? console.error;
-
-  if (feishuCfg) {
-    botOpenId = await fetchBotOpenId(feishuCfg);
-    log(`feishu: bot open_id resolved: ${botOpenId ?? "unknown"}`);
-  }
+  const getBotOpenId = await watchBotOpenId({
+    feishuCfg,
+    accountId: account.accountId,
+    runtime: opts.runtime,
+    abortSignal: opts.abortSignal,
+  });
 
-  const connectionMode = feishuCfg?.connectionMode ?? "websocket";
+  const connectionMode = feishuCfg.connectionMode ?? "websocket";
+  const ctx: FeishuMonitorContext = {
+    cfg,
+    accountId: account.accountId,
+    feishuCfg,
+    getBotOpenId,
+    runtime: opts.runtime,
+    abortSignal: opts.abortSignal,
+    setStatus: opts.setStatus,
+    dedupe: resolveFeishuDedupeStore({ cfg: feishuCfg, accountId: account.accountId }),
+  };
 
-  if (connectionMode === "websocket") {
-    return monitorWebSocket({ cfg, feishuCfg: feishuCfg!, runtime: opts.runtime, abortSignal: opts.abortSignal });
+  try {
+    if (connectionMode === "websocket") {
+      await monitorWebSocket(ctx);
+    } else {
+      await monitorWebhook(ctx);
+    }
+  } finally {
+    await ctx.dedupe.close().catch((err) => {
+      (opts.runtime?.error ?? console.error)(
+        `feishu[${account.accountId}]: failed to persist dedupe store: ${String(err)}`,
+      );
+    });
   }
-
-  log("feishu: webhook mode not implemented in monitor, use HTTP server directly");
 }
 
-async function monitorWebSocket(params: {
+type FeishuMonitorContext = {
   cfg: ClawdbotConfig;
+  accountId: string;
   feishuCfg: FeishuConfig;
+  /** Current bot open_id; undefined until resolution succeeds. */
+  getBotOpenId: () => string | undefined;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
-}): Promise<void> {
-  const { cfg, feishuCfg, runtime, abortSignal } = params;
+  setStatus?: (status: FeishuMonitorStatus) => void;
+  dedupe: FeishuDedupeStore;
+};
+
+/**
+ * Register the event handlers shared by the WebSocket and webhook transports.
+ */
+function registerEventHandlers(eventDispatcher: Lark.EventDispatcher, ctx: FeishuMonitorContext) {
+  const { cfg, accountId, getBotOpenId, runtime, abortSignal, setStatus, dedupe } = ctx;
   const log = runtime?.log ?? console.log;
   const error = runtime?.error ?? console.error;
 
-  log("feishu: starting WebSocket connection...");
+  const chatHistories = new Map<string, HistoryEntry[]>();
+  // Pending history is keyed by chat, or by chat + thread root with per-thread sessions.
+  const chatHistoryKeys = (chatId: string) =>
+    [...chatHistories.keys()].filter((key) => key === chatId || key.startsWith(`${chatId}:`));
+  // Runs in progress by message id, so a recall can cancel the one it belongs to. A debounced
+  // burst is registered under every message in it.
+  const activeRuns = new Map<string, AbortController>();
 
-  const wsClient = createFeishuWSClient(feishuCfg);
-  currentWsClient = wsClient;
+  // Messages in one chat are handled in arrival order so replies and history clearing
+  // don't interleave; separate chats still run in parallel.
+  const queueCfg = ctx.feishuCfg.queue;
+  const messageQueue = createChatQueue<InboundItem>({
+    maxConcurrent: queueCfg?.maxConcurrent ?? DEFAULT_QUEUE_MAX_CONCURRENT,
+    maxDepth: queueCfg?.maxPerChat ?? DEFAULT_QUEUE_MAX_PER_CHAT,
+    overflow: queueCfg?.overflow ?? "drop",
+    // Merged messages ride along as a burst, so each keeps its id for replies and recalls.
+    merge: (previous, next) => {
+      if (previous.kind !== "message" || next.kind !== "message") return null;
+      if (!canMergeFeishuMessageEvents(previous.event, next.event)) return null;
+      return toMessageItem([...(previous.burst ?? []), previous.event, ...(next.burst ?? []), next.event]);
+    },
+    run: async (item) => {
+      if (item.kind === "card_action") {
+        await handleFeishuCardAction({ cfg, accountId, action: item.action, runtime });
+        return;
+      }
+      const event = item.event;
+      const messageIds = [...(item.burst ?? []), event].map((entry) => entry.message.message_id);
+      const controller = new AbortController();
+      for (const messageId of messageIds) activeRuns.set(messageId, controller);
+      try {
+        await handleFeishuMessage({
+          cfg,
+          accountId,
+          event,
+          botOpenId: getBotOpenId(),
+          runtime,
+          chatHistories,
+          abortSignal: controller.signal,
+          burst: item.burst,
+        });
+      } finally {
+        for (const messageId of messageIds) {
+          if (activeRuns.get(messageId) === controller) activeRuns.delete(messageId);
+        }
+      }
+    },
+    onError: (err) => error(`feishu: error handling message event: ${String(err)}`),
+    onChange: (stats) => setStatus?.({ queue: stats }),
+  });
 
-  const chatHistories = new Map<string, HistoryEntry[]>();
+  // Quick successive messages from one sender (in one chat and thread) wait out a short
+  // window and then go through the queue as a single turn.
+  const enqueueMessages = (events: FeishuMessageEvent[]) => {
+    const event = events[events.length - 1];
+    const result = messageQueue.enqueue(event.message.chat_id, toMessageItem(events));
+    if (result === "dropped") {
+      log(`feishu[${accountId}]: chat ${event.message.chat_id} queue full, dropped message ${event.message.message_id}`);
+    }
+  };
+  const debouncer = createInboundDebouncer<FeishuMessageEvent>({
+    windowMs: getFeishuRuntime().channel.debounce.resolveInboundDebounceMs({
+      cfg,
+      channel: "feishu",
+      overrideMs: ctx.feishuCfg.inboundDebounceMs,
+    }),
+    maxItems: DEBOUNCE_MAX_MESSAGES,
+    onFlush: enqueueMessages,
+  });
+  const debounceKey = (event: FeishuMessageEvent) =>
+    `${event.message.chat_id}:${event.sender.sender_id.open_id ?? ""}:${event.message.thread_id ?? ""}`;
 
-  const eventDispatcher = createEventDispatcher(feishuCfg);
+  abortSignal?.addEventListener(
+    "abort",
+    () => {
+      debouncer.clear();
+      messageQueue.clear();
+    },
+    { once: true },
+  );
+
+  // Feishu redelivers when a handler is slow or the connection flaps; the same message can
+  // come back under a new event id, so both ids are checked.
+  const isRedelivery = (eventId: string | undefined, messageId: string | undefined) => {
+    if (!dedupe.isDuplicate([eventId && `event:${eventId}`, messageId && `message:${messageId}`])) {
+      return false;
+    }
+    log(`feishu[${accountId}]: skipping duplicate delivery (event ${eventId ?? "?"}, message ${messageId ?? "?"})`);
+    setStatus?.({ dedupe: dedupe.stats() });
+    return true;
+  };
 
   eventDispatcher.register({
     "im.message.receive_v1": async (data) => {
       try {
         const event = data as unknown as FeishuMessageEvent;
-        await handleFeishuMessage({
+        const eventId = (data as { event_id?: string }).event_id;
+        if (isRedelivery(eventId, event.message?.message_id)) return;
+        const mode = resolveFeishuDebounceMode({
           cfg,
+          feishuCfg: ctx.feishuCfg,
           event,
-          botOpenId,
-          runtime,
-          chatHistories,
+          botOpenId: getBotOpenId(),
         });
+        debouncer.push(debounceKey(event), event, mode);
       } catch (err) {
         error(`feishu: error handling message event: ${String(err)}`);
       }
     },
+    "im.message.recalled_v1": async (data) => {
+      try {
+        const event = data as unknown as FeishuMessageRecalledEvent;
+        const messageId = event.message_id;
+        const run = activeRuns.get(messageId);
+        if (run) {
+          log(`feishu[${accountId}]: message ${messageId} recalled, cancelling run`);
+          run.abort();
+        }
+        // A waiting burst loses just the recalled message; it's dropped once nothing is left.
+        const dequeued =
+          debouncer.remove((item) => item.message.message_id === messageId) +
+          messageQueue.update(event.chat_id, (item) => {
+            if (item.kind !== "message") return item;
+            const events = [...(item.burst ?? []), item.event];
+            const remaining = events.filter((entry) => entry.message.message_id !== messageId);
+            if (remaining.length === events.length) return item;
+            return remaining.length > 0 ? toMessageItem(remaining) : null;
+          });
+        if (dequeued > 0) {
+          log(`feishu[${accountId}]: message ${messageId} recalled before processing, dropped`);
+        }
+        for (const key of chatHistoryKeys(event.chat_id)) {
+          const history = chatHistories.get(key) ?? [];
+          const remaining = history.filter((entry) => entry.messageId !== messageId);
+          if (remaining.length !== history.length) chatHistories.set(key, remaining);
+        }
+      } catch (err) {
+        error(`feishu: error handling message recalled event: ${String(err)}`);
+      }
+    },
+    "card.action.trigger": async (data) => {
+      try {
+        if (ctx.feishuCfg.cardActions?.enabled === false) return;
+        const action = parseFeishuCardAction(data as unknown as FeishuCardActionEvent);
+        if (!action) {
+          log(`feishu[${accountId}]: ignoring card action without chat, message or operator`);
+          return;
+        }
+        if (isRedelivery(action.eventId, undefined)) return;
+        // Feishu waits at most 3s for the callback response, so the agent runs from the queue.
+        const result = messageQueue.enqueue(action.chatId, { kind: "card_action", action });
+        if (result === "dropped") {
+          log(`feishu[${accountId}]: chat ${action.chatId} queue full, dropped card action on ${action.messageId}`);
+        }
+      } catch (err) {
+        error(`feishu: error handling card action: ${String(err)}`);
+      }
+    },
     "im.message.message_read_v1": async () => {
       // Ignore read receipts
     },
     "im.chat.member.bot.added_v1": async (data) => {
       try {
         const event = data as unknown as FeishuBotAddedEvent;
-        log(`feishu: bot added to chat ${event.chat_id}`);
+        await handleFeishuBotAdded({ cfg, accountId, event, runtime });
       } catch (err) {
         error(`feishu: error handling bot added event: ${String(err)}`);
       }
     },
     "im.chat.member.bot.deleted_v1": async (data) => {
       try {
-        const event = data as unknown as { chat_id: string };
-        log(`feishu: bot removed from chat ${event.chat_id}`);
+        const event = data as unknown as FeishuBotRemovedEvent;
+        await handleFeishuBotRemoved({
+          cfg,
+          accountId,
+          event,
+          runtime,
+          forgetChat: (chatId) => {
+            for (const key of chatHistoryKeys(chatId)) chatHistories.delete(key);
+            debouncer.remove((item) => item.message.chat_id === chatId);
+            messageQueue.clearChat(chatId);
+          },
+        });
       } catch (err) {
         error(`feishu: error handling bot removed event: ${String(err)}`);
       }
     },
+    "im.chat.access_event.bot_p2p_chat_entered_v1": async (data) => {
+      try {
+        const eventId = (data as { event_id?: string }).event_id;
+        if (isRedelivery(eventId, undefined)) return;
+        const event = data as unknown as FeishuP2pChatEnteredEvent;
+        await handleFeishuP2pChatEntered({ cfg, accountId, event, runtime });
+      } catch (err) {
+        error(`feishu: error handling p2p chat entered event: ${String(err)}`);
+      }
+    },
   });
+}
+
+const WS_BACKOFF_BASE_MS = 1_000;
+const WS_BACKOFF_MAX_MS = 60_000;
+
+function computeReconnectDelayMs(attempt: number): number {
+  const ceiling = Math.min(WS_BACKOFF_MAX_MS, WS_BACKOFF_BASE_MS * 2 ** attempt);
+  // Jitter so accounts sharing an outage don't all reconnect in lockstep.
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
 
-  return new Promise((resolve, reject) => {
-    const cleanup = () => {
-      if (currentWsClient === wsClient) {
-        currentWsClient = null;
+async function monitorWebSocket(params: FeishuMonitorContext): Promise<void> {
+  const { accountId, feishuCfg, runtime, abortSignal, setStatus } = params;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  if (abortSignal?.aborted) return;
+
+  // A config reload restarts the account; make sure the previous socket is really gone.
+  wsConnections.get(accountId)?.close();
+
+  const eventDispatcher = createEventDispatcher(feishuCfg);
+  registerEventHandlers(eventDispatcher, params);
+
+  let stopped = false;
+  let wsClient: Lark.WSClient | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectAttempts = 0;
+  let lastError: string | null = null;
+  let resolveDone: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const report = (state: FeishuConnectionState, patch: FeishuMonitorStatus = {}) => {
+    setStatus?.({
+      connectionState: state,
+      connected: state === "connected",
+      reconnectAttempts,
+      lastError,
+      ...patch,
+    });
+  };
+
+  const handleAbort = () => {
+    log(`feishu[${accountId}]: abort signal received, closing WebSocket connection`);
+    connection.close();
+  };
+
+  const connection: WSConnection = {
+    close: () => {
+      if (stopped) return;
+      stopped = true;
+      clearTimeout(retryTimer);
+      if (wsClient) closeFeishuWSClient(wsClient);
+      wsClient = null;
+      if (wsConnections.get(accountId) === connection) {
+        wsConnections.delete(accountId);
       }
-    };
+      abortSignal?.removeEventListener("abort", handleAbort);
+      report("closed", { running: false });
+      resolveDone();
+    },
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    if (stopped) return;
+    const delayMs = computeReconnectDelayMs(reconnectAttempts);
+    reconnectAttempts += 1;
+    error(`feishu[${accountId}]: ${reason}; reconnecting in ${delayMs}ms (attempt ${reconnectAttempts})`);
+    report("reconnecting");
+    retryTimer = setTimeout(() => void connect(), delayMs);
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+    report(reconnectAttempts === 0 ? "connecting" : "reconnecting");
+
+    let client: Lark.WSClient;
+    let socket: FeishuWSSocket | null;
+    try {
+      client = createFeishuWSClient(feishuCfg, {
+        onError: (message) => {
+          lastError = message;
+        },
+      });
+      wsClient = client;
+      socket = await connectFeishuWSClient(client, eventDispatcher);
+    } catch (err) {
+      lastError = String(err);
+      scheduleReconnect(`WebSocket connect failed: ${lastError}`);
+      return;
+    }
+
+    if (stopped || wsClient !== client) {
+      closeFeishuWSClient(client);
+      return;
+    }
+    if (!socket) {
+      wsClient = null;
+      scheduleReconnect(`WebSocket connect failed${lastError ? `: ${lastError}` : ""}`);
+      return;
+    }
+
+    reconnectAttempts = 0;
+    lastError = null;
+    log(`feishu[${accountId}]: WebSocket connected`);
+    report("connected", { lastConnectedAt: Date.now() });
+
+    socket.once("close", (code) => {
+      if (stopped || wsClient !== client) return;
+      closeFeishuWSClient(client);
+      wsClient = null;
+      scheduleReconnect(`WebSocket closed (code ${code})`);
+    });
+  };
+
+  wsConnections.set(accountId, connection);
+  abortSignal?.addEventListener("abort", handleAbort, { once: true });
+
+  log(`feishu[${accountId}]: starting WebSocket connection...`);
+  report("connecting", { running: true });
+  void connect();
+
+  return done;
+}
+
+async function monitorWebhook(params: FeishuMonitorContext): Promise<void> {
+  const { accountId, feishuCfg, runtime, abortSignal, setStatus } = params;
+  const log = runtime?.log ?? console.log;
+  const error = runtime?.error ?? console.error;
+
+  const port = feishuCfg.webhookPort;
+  if (!port) {
+    throw new Error(`Feishu webhook mode requires webhookPort for account "${accountId}"`);
+  }
+  const creds = resolveFeishuCredentials(feishuCfg);
+  const path = normalizeWebhookPath(feishuCfg.webhookPath);
 
+  const eventDispatcher = createEventDispatcher(feishuCfg);
+  registerEventHandlers(eventDispatcher, params);
+
+  if (abortSignal?.aborted) return;
+
+  const stop = await startFeishuWebhookTarget({
+    port,
+    target: {
+      accountId,
+      path,
+      encryptKey: creds?.encryptKey,
+      verificationToken: creds?.verificationToken,
+      verifier: getFeishuWebhookVerifier(feishuCfg),
+      recordReject: (reason) => recordFeishuWebhookRejection(feishuCfg, reason),
+      eventDispatcher,
+      log,
+      error,
+    },
+  });
+  log(`feishu[${accountId}]: webhook server listening on :${port}${path}`);
+  setStatus?.({ running: true });
+
+  return new Promise((resolve) => {
     const handleAbort = () => {
-      log("feishu: abort signal received, stopping WebSocket client");
-      cleanup();
-      resolve();
+      log(`feishu[${accountId}]: abort signal received, stopping webhook server`);
+      stop()
+        .catch((err) => error(`feishu[${accountId}]: failed to stop webhook server: ${String(err)}`))
+        .finally(() => {
+          setStatus?.({ running: false });
+          resolve();
+        });
     };
 
     if (abortSignal?.aborted) {
-      cleanup();
-      resolve();
+      handleAbort();
       return;
     }
 
     abortSignal?.addEventListener("abort", handleAbort, { once: true });
-
-    try {
-      wsClient.start({
-        eventDispatcher,
-      });
-
-      log("feishu: WebSocket client started");
-    } catch (err) {
-      cleanup();
-      abortSignal?.removeEventListener("abort", handleAbort);
-      reject(err);
-    }
   });
 }
 
-export function stopFeishuMonitor(): void {
-  if (currentWsClient) {
-    currentWsClient = null;
+/**
+ * Close the WebSocket connection for one account, or for every account when omitted.
+ */
+export function stopFeishuMonitor(accountId?: string): void {
+  if (accountId) {
+    wsConnections.get(accountId)?.close();
+    return;
+  }
+  for (const connection of Array.from(wsConnections.values())) {
+    connection.close();
   }
 }
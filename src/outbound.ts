@@ -8,33 +8,34 @@ export const feishuOutbound: ChannelOutboundAdapter = {
   chunker: (text, limit) => getFeishuRuntime().channel.text.chunkMarkdownText(text, limit),
   chunkerMode: "markdown",
   textChunkLimit: 4000,
-  sendText: async ({ cfg, to, text }) => {
-    const result = await sendMessageFeishu({ cfg, to, text });
+  sendText: async ({ cfg, to, text, accountId }) => {
+    const result = await sendMessageFeishu({ cfg, to, text, accountId: accountId ?? undefined });
     return { channel: "feishu", ...result };
   },
-  sendMedia: async ({ cfg, to, text, mediaUrl }) => {
+  sendMedia: async ({ cfg, to, text, mediaUrl, accountId }) => {
+    const sendAccountId = accountId ?? undefined;
     // Send text first if provided
     if (text?.trim()) {
-      await sendMessageFeishu({ cfg, to, text });
+      await sendMessageFeishu({ cfg, to, text, accountId: sendAccountId });
     }
 
     // Upload and send media if URL provided
     if (mediaUrl) {
       try {
-        const result = await sendMediaFeishu({ cfg, to, mediaUrl });
+        const result = await sendMediaFeishu({ cfg, to, mediaUrl, accountId: sendAccountId });
         return { channel: "feishu", ...result };
       } catch (err) {
         // Log the error for debugging
         console.error(`[feishu] sendMediaFeishu failed:`, err);
         // Fallback to URL link if upload fails
         const fallbackText = `📎 ${mediaUrl}`;
-        const result = await sendMessageFeishu({ cfg, to, text: fallbackText });
+        const result = await sendMessageFeishu({ cfg, to, text: fallbackText, accountId: sendAccountId });
         return { channel: "feishu", ...result };
       }
     }
 
     // No media URL, just return text result
-    const result = await sendMessageFeishu({ cfg, to, text: text ?? "" });
+    const result = await sendMessageFeishu({ cfg, to, text: text ?? "", accountId: sendAccountId });
     return { channel: "feishu", ...result };
   },
 };
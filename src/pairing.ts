@@ -0,0 +1,74 @@
+import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
+
+import { getFeishuRuntime } from "./runtime.js";
+
+// A stranger who keeps writing gets their code once per window, not once per message.
+const PAIRING_REPLY_COOLDOWN_MS = 10 * 60 * 1000;
+const lastPairingReplyAt = new Map<string, number>();
+
+/**
+ * The host keeps one pairing store per channel, so entries of other accounts carry their
+ * account id: `<accountId>:<open_id>`. The default account keeps bare open ids, which is
+ * also what it stored before accounts were told apart.
+ */
+function toFeishuPairingId(accountId: string, openId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? openId : `${accountId}:${openId}`;
+}
+
+/** Split a pairing store id back into the account and the open id. */
+export function parseFeishuPairingId(id: string): { accountId: string; openId: string } {
+  const separator = id.lastIndexOf(":");
+  if (separator < 0) return { accountId: DEFAULT_ACCOUNT_ID, openId: id };
+  return { accountId: id.slice(0, separator), openId: id.slice(separator + 1) };
+}
+
+/**
+ * Open ids approved for an account through the host pairing store
+ * (`openclaw pairing approve feishu <code>`).
+ */
+export async function readFeishuPairedUsers(accountId: string): Promise<string[]> {
+  const entries = await getFeishuRuntime()
+    .channel.pairing.readAllowFromStore("feishu")
+    .catch(() => []);
+  return entries
+    .map(parseFeishuPairingId)
+    .filter((entry) => entry.accountId === accountId)
+    .map((entry) => entry.openId);
+}
+
+/**
+ * Create or refresh the pairing request for a DM sender and return the reply carrying the
+ * code. Pending requests expire in the host store after an hour; a later message then gets
+ * a new code. Returns null while the sender is inside the reply cooldown, or when the store
+ * refuses the request (too many pending).
+ */
+export async function requestFeishuPairing(params: {
+  accountId: string;
+  openId: string;
+  senderName?: string;
+}): Promise<string | null> {
+  const { accountId, openId, senderName } = params;
+  const key = `${accountId}:${openId}`;
+  const now = Date.now();
+  const lastReplyAt = lastPairingReplyAt.get(key);
+  if (lastReplyAt && now - lastReplyAt < PAIRING_REPLY_COOLDOWN_MS) return null;
+
+  const core = getFeishuRuntime();
+  const { code } = await core.channel.pairing.upsertPairingRequest({
+    channel: "feishu",
+    id: toFeishuPairingId(accountId, openId),
+    meta: senderName ? { name: senderName } : undefined,
+  });
+  if (!code) return null;
+
+  for (const [entry, at] of lastPairingReplyAt) {
+    if (now - at >= PAIRING_REPLY_COOLDOWN_MS) lastPairingReplyAt.delete(entry);
+  }
+  lastPairingReplyAt.set(key, now);
+
+  return core.channel.pairing.buildPairingReply({
+    channel: "feishu",
+    idLine: `Your Feishu user id: ${openId}`,
+    code,
+  });
+}
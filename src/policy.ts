@@ -1,5 +1,6 @@
 import type { ChannelGroupContext, GroupToolPolicyConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig, FeishuGroupConfig } from "./types.js";
+import type { FeishuConfig, FeishuDmConfig, FeishuGroupConfig } from "./types.js";
+import { resolveFeishuAccount } from "./accounts.js";
 
 export type FeishuAllowlistMatch = {
   allowed: boolean;
@@ -34,27 +35,120 @@ export function resolveFeishuAllowlistMatch(params: {
   return { allowed: false };
 }
 
+/**
+ * Entry for `id` in a `groups`/`dms` map, layered over the `*` entry: the specific entry
+ * overrides the wildcard defaults field by field.
+ */
+function resolveConfigEntry<T extends object>(
+  entries: Record<string, T | undefined>,
+  id: string | null | undefined,
+): T | undefined {
+  const key = id?.trim();
+  if (!key) return undefined;
+
+  let specific = key === "*" ? undefined : entries[key];
+  if (!specific) {
+    const lowered = key.toLowerCase();
+    const matchKey = Object.keys(entries).find((entry) => entry !== "*" && entry.toLowerCase() === lowered);
+    specific = matchKey ? entries[matchKey] : undefined;
+  }
+  const wildcard = entries["*"];
+  if (!wildcard) return specific;
+  if (!specific) return wildcard;
+  return { ...wildcard, ...specific };
+}
+
 export function resolveFeishuGroupConfig(params: {
   cfg?: FeishuConfig;
   groupId?: string | null;
 }): FeishuGroupConfig | undefined {
-  const groups = params.cfg?.groups ?? {};
-  const groupId = params.groupId?.trim();
-  if (!groupId) return undefined;
+  return resolveConfigEntry<FeishuGroupConfig>(params.cfg?.groups ?? {}, params.groupId);
+}
+
+export function resolveFeishuDmConfig(params: {
+  cfg?: FeishuConfig;
+  senderId?: string | null;
+}): FeishuDmConfig | undefined {
+  return resolveConfigEntry<FeishuDmConfig>(params.cfg?.dms ?? {}, params.senderId);
+}
+
+/**
+ * System prompt and skill filter for the conversation: the group's entry in a group chat,
+ * the sender's `dms` entry in a DM (DM entries have no skills).
+ */
+export function resolveFeishuConversationConfig(params: {
+  cfg?: FeishuConfig;
+  isGroup: boolean;
+  chatId: string;
+  senderOpenId: string;
+}): { systemPrompt?: string; skills?: string[] } {
+  const { cfg, isGroup, chatId, senderOpenId } = params;
+  if (isGroup) {
+    const groupConfig = resolveFeishuGroupConfig({ cfg, groupId: chatId });
+    return { systemPrompt: groupConfig?.systemPrompt?.trim() || undefined, skills: groupConfig?.skills };
+  }
+  const dmConfig = resolveFeishuDmConfig({ cfg, senderId: senderOpenId });
+  return { systemPrompt: dmConfig?.systemPrompt?.trim() || undefined };
+}
+
+// What inbound handling learned about chats and senders outside our tenants. The tool
+// policy hook is synchronous and only gets ids, so it reads these instead of looking up.
+// Keys are lowercased: group ids reach the hook through (lowercased) session keys.
+const externalChats = new Set<string>();
+const externalSenders = new Set<string>();
+
+/** A sender is external when `external.tenantKeys` is set and their tenant isn't in it. */
+export function isFeishuExternalSender(cfg: FeishuConfig | undefined, tenantKey?: string): boolean {
+  const tenantKeys = cfg?.external?.tenantKeys ?? [];
+  if (tenantKeys.length === 0 || !tenantKey) return false;
+  return !tenantKeys.includes(tenantKey);
+}
 
-  const direct = groups[groupId] as FeishuGroupConfig | undefined;
-  if (direct) return direct;
+export function recordFeishuExternalContext(params: {
+  chatId: string;
+  chatExternal: boolean;
+  senderOpenId: string;
+  senderExternal: boolean;
+}): void {
+  const chatKey = params.chatId.toLowerCase();
+  const senderKey = params.senderOpenId.toLowerCase();
+  if (params.chatExternal) externalChats.add(chatKey);
+  else externalChats.delete(chatKey);
+  if (params.senderExternal) externalSenders.add(senderKey);
+  else externalSenders.delete(senderKey);
+}
 
-  const lowered = groupId.toLowerCase();
-  const matchKey = Object.keys(groups).find((key) => key.toLowerCase() === lowered);
-  return matchKey ? (groups[matchKey] as FeishuGroupConfig | undefined) : undefined;
+/**
+ * `external.tools` (default: no tools) when the group is external in `restricted` mode or
+ * the sender is external in `restricted` mode; it replaces the group's own tool policy.
+ */
+function resolveFeishuExternalToolPolicy(params: {
+  cfg: FeishuConfig;
+  groupId?: string | null;
+  senderId?: string | null;
+}): GroupToolPolicyConfig | undefined {
+  const external = params.cfg.external;
+  const chatRestricted =
+    external?.groups === "restricted" && Boolean(params.groupId && externalChats.has(params.groupId.toLowerCase()));
+  const senderRestricted =
+    external?.senders === "restricted" &&
+    Boolean(params.senderId && externalSenders.has(params.senderId.toLowerCase()));
+  if (!chatRestricted && !senderRestricted) return undefined;
+  return external?.tools ?? { deny: ["*"] };
 }
 
 export function resolveFeishuGroupToolPolicy(
   params: ChannelGroupContext,
 ): GroupToolPolicyConfig | undefined {
-  const cfg = params.cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!cfg) return undefined;
+  if (!params.cfg.channels?.feishu) return undefined;
+  const cfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
+
+  const externalTools = resolveFeishuExternalToolPolicy({
+    cfg,
+    groupId: params.groupId,
+    senderId: params.senderId,
+  });
+  if (externalTools) return externalTools;
 
   const groupConfig = resolveFeishuGroupConfig({
     cfg,
@@ -76,6 +170,123 @@ export function isFeishuGroupAllowed(params: {
   return resolveFeishuAllowlistMatch(params).allowed;
 }
 
+/**
+ * Chat- and sender-level allowlist checks shared by messages and card actions.
+ * Returns a log-ready reason when the sender is not allowed. Under the `pairing` DM policy,
+ * senders approved through the pairing store (`storeAllowFrom`) count as allowlisted.
+ * `readonly` means the bot may read the chat (pending history) but not answer.
+ */
+export function checkFeishuSenderAccess(params: {
+  cfg?: FeishuConfig;
+  isGroup: boolean;
+  chatId: string;
+  senderOpenId: string;
+  senderName?: string | null;
+  storeAllowFrom?: Array<string | number>;
+  chatExternal?: boolean;
+  senderExternal?: boolean;
+}):
+  | { allowed: true; readonly?: boolean }
+  | { allowed: false; reason: string; pairable?: boolean } {
+  const { cfg, isGroup, chatId, senderOpenId, senderName, storeAllowFrom } = params;
+
+  // Tool restrictions can only be applied in groups, so restricted external DMs are refused.
+  const senderMode = cfg?.external?.senders ?? "deny";
+  if (params.senderExternal && (senderMode === "deny" || (senderMode === "restricted" && !isGroup))) {
+    return { allowed: false, reason: `sender ${senderOpenId} is outside the allowed tenants` };
+  }
+  const groupMode = cfg?.external?.groups ?? "allow";
+  if (isGroup && params.chatExternal && groupMode === "deny") {
+    return { allowed: false, reason: `group ${chatId} is external` };
+  }
+
+  if (isGroup) {
+    const groupConfig = resolveFeishuGroupConfig({ cfg, groupId: chatId });
+    if (groupConfig?.enabled === false) {
+      return { allowed: false, reason: `group ${chatId} is disabled` };
+    }
+
+    // groupAllowFrom contains group IDs, not user IDs
+    const groupAllowed = isFeishuGroupAllowed({
+      groupPolicy: cfg?.groupPolicy ?? "open",
+      allowFrom: cfg?.groupAllowFrom ?? [],
+      senderId: chatId,
+      senderName: undefined,
+    });
+    if (!groupAllowed) {
+      return { allowed: false, reason: `group ${chatId} not in allowlist` };
+    }
+
+    // Additional sender-level allowlist check if group has specific allowFrom config
+    const senderAllowFrom = groupConfig?.allowFrom ?? [];
+    if (senderAllowFrom.length > 0) {
+      const senderAllowed = isFeishuGroupAllowed({
+        groupPolicy: "allowlist",
+        allowFrom: senderAllowFrom,
+        senderId: senderOpenId,
+        senderName,
+      });
+      if (!senderAllowed) {
+        return { allowed: false, reason: `sender ${senderOpenId} not in group ${chatId} allowlist` };
+      }
+    }
+    return params.chatExternal && groupMode === "readonly" ? { allowed: true, readonly: true } : { allowed: true };
+  }
+
+  if (resolveFeishuDmConfig({ cfg, senderId: senderOpenId })?.enabled === false) {
+    return { allowed: false, reason: `DMs from ${senderOpenId} are disabled` };
+  }
+
+  const dmPolicy = cfg?.dmPolicy ?? "pairing";
+  if (dmPolicy === "allowlist" || dmPolicy === "pairing") {
+    const match = resolveFeishuAllowlistMatch({
+      allowFrom: [...(cfg?.allowFrom ?? []), ...(dmPolicy === "pairing" ? (storeAllowFrom ?? []) : [])],
+      senderId: senderOpenId,
+    });
+    if (!match.allowed) {
+      if (dmPolicy === "pairing") {
+        return { allowed: false, reason: `sender ${senderOpenId} not paired`, pairable: true };
+      }
+      return { allowed: false, reason: `sender ${senderOpenId} not in DM allowlist` };
+    }
+  }
+  return { allowed: true };
+}
+
+/**
+ * Authorizers for host commands (`/reset`, `/model`, ...), for the host's command gate:
+ * `commandAllowFrom`, the DM allowlist including paired users, and the sender's group role
+ * (owners and managers may). A `*` in the DM allowlist doesn't count, since `dmPolicy: "open"`
+ * needs one; put `*` in `commandAllowFrom` to let everyone run commands.
+ */
+export function resolveFeishuCommandAuthorizers(params: {
+  cfg?: FeishuConfig;
+  senderOpenId: string;
+  senderName?: string | null;
+  storeAllowFrom?: Array<string | number>;
+  chatRole?: "owner" | "manager" | "member";
+}): Array<{ configured: boolean; allowed: boolean }> {
+  const { cfg, senderOpenId, senderName, chatRole } = params;
+  const commandAllowFrom = cfg?.commandAllowFrom ?? [];
+  const dmAllowFrom = [...(cfg?.allowFrom ?? []), ...(params.storeAllowFrom ?? [])].filter(
+    (entry) => String(entry).trim() !== "*",
+  );
+  return [
+    {
+      configured: commandAllowFrom.length > 0,
+      allowed: resolveFeishuAllowlistMatch({ allowFrom: commandAllowFrom, senderId: senderOpenId, senderName }).allowed,
+    },
+    {
+      configured: dmAllowFrom.length > 0,
+      allowed: resolveFeishuAllowlistMatch({ allowFrom: dmAllowFrom, senderId: senderOpenId }).allowed,
+    },
+    {
+      configured: chatRole !== undefined,
+      allowed: chatRole === "owner" || chatRole === "manager",
+    },
+  ];
+}
+
 export function resolveFeishuReplyPolicy(params: {
   isDirectMessage: boolean;
   globalConfig?: FeishuConfig;
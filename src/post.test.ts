@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+
+import { convertFeishuPostToMarkdown, resolveFeishuPostBody } from "./post.js";
+
+// Post bodies as Feishu delivers them in `message.content`.
+const fixtures = {
+  styles: {
+    zh_cn: {
+      content: [
+        [
+          { tag: "text", text: "plain " },
+          { tag: "text", text: "bold", style: ["bold"] },
+          { tag: "text", text: " " },
+          { tag: "text", text: "italic", style: ["italic"] },
+          { tag: "text", text: " " },
+          { tag: "text", text: "struck", style: ["lineThrough"] },
+          { tag: "text", text: " " },
+          { tag: "text", text: "under", style: ["underline"] },
+        ],
+        [{ tag: "text", text: " both ", style: ["bold", "italic"] }],
+      ],
+    },
+  },
+  links: {
+    content: [
+      [
+        { tag: "text", text: "see " },
+        { tag: "a", text: "the docs", href: "https://open.feishu.cn/document" },
+        { tag: "text", text: " or " },
+        { tag: "a", href: "https://example.com" },
+        { tag: "text", text: " and " },
+        { tag: "a", text: "bold link", href: "https://example.com/b", style: ["bold"] },
+      ],
+    ],
+  },
+  mentions: {
+    content: [
+      [
+        { tag: "at", user_id: "ou_alice", user_name: "Alice" },
+        { tag: "text", text: " and " },
+        { tag: "at", user_id: "all" },
+        { tag: "text", text: " and " },
+        { tag: "at", user_id: "ou_bob" },
+      ],
+    ],
+  },
+  images: {
+    content: [
+      [{ tag: "text", text: "screenshots:" }],
+      [{ tag: "img", image_key: "img_v3_first" }],
+      [
+        { tag: "img", image_key: "img_v3_second" },
+        { tag: "media", file_key: "file_v3_video", image_key: "img_v3_cover" },
+      ],
+    ],
+  },
+  codeBlocks: {
+    content: [
+      [{ tag: "text", text: "run this:" }],
+      [{ tag: "code_block", language: "TypeScript", text: "const a = 1;\nconsole.log(a);\n" }],
+      [{ tag: "code_block", language: "PLAIN_TEXT", text: "no language" }],
+      [{ tag: "code_block", language: "markdown", text: "```js\nnested\n```" }],
+    ],
+  },
+  headings: {
+    en_us: {
+      title: "  Release notes  ",
+      content: [
+        [{ tag: "md", text: "## Fixed\n- crash on start" }],
+        [{ tag: "hr" }],
+        [{ tag: "text", text: "thanks" }],
+      ],
+    },
+  },
+};
+
+describe("convertFeishuPostToMarkdown", () => {
+  it("renders text styles with markers hugging the text", () => {
+    expect(convertFeishuPostToMarkdown(fixtures.styles).markdown).toBe(
+      "plain **bold** *italic* ~~struck~~ <u>under</u>\n ***both***",
+    );
+  });
+
+  it("keeps links as [text](href) and falls back to the url as label", () => {
+    expect(convertFeishuPostToMarkdown(fixtures.links).markdown).toBe(
+      "see [the docs](https://open.feishu.cn/document) or [https://example.com](https://example.com)" +
+        " and **[bold link](https://example.com/b)**",
+    );
+  });
+
+  it("renders @-mentions by name, @all, and bare ids when no name is known", () => {
+    expect(convertFeishuPostToMarkdown(fixtures.mentions).markdown).toBe("@Alice and @all and @ou_bob");
+  });
+
+  it("lets the caller render mentions by user_id, falling back to the name", () => {
+    const renderMention = (userId: string) => (userId === "ou_alice" ? "" : undefined);
+    expect(convertFeishuPostToMarkdown(fixtures.mentions, { renderMention }).markdown).toBe(
+      "and @all and @ou_bob",
+    );
+  });
+
+  it("collects images and videos in document order instead of inlining them", () => {
+    const result = convertFeishuPostToMarkdown(fixtures.images);
+    expect(result.markdown).toBe("screenshots:");
+    expect(result.imageKeys).toEqual(["img_v3_first", "img_v3_second"]);
+    expect(result.mediaKeys).toEqual(["file_v3_video"]);
+  });
+
+  it("renders code blocks as language-tagged fences", () => {
+    expect(convertFeishuPostToMarkdown(fixtures.codeBlocks).markdown).toBe(
+      [
+        "run this:",
+        "```typescript",
+        "const a = 1;",
+        "console.log(a);",
+        "```",
+        "```",
+        "no language",
+        "```",
+        "````markdown",
+        "```js",
+        "nested",
+        "```",
+        "````",
+      ].join("\n"),
+    );
+  });
+
+  it("turns the title into a heading and passes md blocks and rules through", () => {
+    expect(convertFeishuPostToMarkdown(fixtures.headings).markdown).toBe(
+      ["# Release notes", "", "## Fixed", "- crash on start", "", "---", "", "thanks"].join("\n"),
+    );
+  });
+
+  it("accepts the JSON string from message.content", () => {
+    expect(convertFeishuPostToMarkdown(JSON.stringify(fixtures.mentions)).markdown).toBe(
+      "@Alice and @all and @ou_bob",
+    );
+  });
+
+  it("unescapes HTML entities only when asked to", () => {
+    const post = {
+      content: [
+        [{ tag: "text", text: "a &lt; b", un_escape: true }],
+        [{ tag: "text", text: "a &lt; b" }],
+      ],
+    };
+    expect(convertFeishuPostToMarkdown(post).markdown).toBe("a < b\na &lt; b");
+  });
+});
+
+describe("resolveFeishuPostBody", () => {
+  it("unwraps post and locale wrappers, preferring zh_cn", () => {
+    const zh = { title: "中文", content: [] };
+    const en = { title: "English", content: [] };
+    expect(resolveFeishuPostBody({ post: { en_us: en, zh_cn: zh } })).toBe(zh);
+    expect(resolveFeishuPostBody({ en_us: en })).toBe(en);
+    expect(resolveFeishuPostBody({ ko_kr: en })).toBe(en);
+  });
+
+  it("returns null for anything that is not a post", () => {
+    expect(resolveFeishuPostBody(null)).toBeNull();
+    expect(resolveFeishuPostBody({ text: "hi" })).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Feishu rich text (post) → markdown.
+ * Post structure: { title?: string, content: [[{ tag, ... }]] }, optionally wrapped per
+ * locale ({ zh_cn: { ... }, en_us: { ... } }) or under a `post` key.
+ */
+
+export type FeishuPostElement = {
+  tag: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  file_key?: string;
+  emoji_type?: string;
+  language?: string;
+  style?: string[];
+  un_escape?: boolean;
+};
+
+export type FeishuPostBody = {
+  title?: string;
+  content?: FeishuPostElement[][];
+};
+
+export type FeishuPostMarkdown = {
+  markdown: string;
+  /** Embedded images, in document order. */
+  imageKeys: string[];
+  /** Embedded videos (`media` tags), in document order. */
+  mediaKeys: string[];
+};
+
+export type FeishuPostOptions = {
+  /**
+   * Render an `at` element by its `user_id` (a mention key such as `@_user_1` in message
+   * events). Return `""` to drop the mention, or `undefined` for the default `@Name`.
+   */
+  renderMention?: (userId: string) => string | undefined;
+};
+
+const LOCALE_PREFERENCE = ["zh_cn", "en_us", "ja_jp"];
+
+function isPostBody(value: unknown): value is FeishuPostBody {
+  if (!value || typeof value !== "object") return false;
+  const body = value as FeishuPostBody;
+  return Array.isArray(body.content) || typeof body.title === "string";
+}
+
+/**
+ * Pick the post body out of the shapes Feishu uses: bare, `post`-wrapped or per-locale.
+ */
+export function resolveFeishuPostBody(parsed: unknown): FeishuPostBody | null {
+  if (!parsed || typeof parsed !== "object") return null;
+  const record = parsed as Record<string, unknown>;
+  if ("post" in record) return resolveFeishuPostBody(record.post);
+  if (isPostBody(record)) return record;
+
+  for (const locale of LOCALE_PREFERENCE) {
+    if (isPostBody(record[locale])) return record[locale] as FeishuPostBody;
+  }
+  for (const value of Object.values(record)) {
+    if (isPostBody(value)) return value;
+  }
+  return null;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+}
+
+/**
+ * Wrap text in markdown style markers. Markers have to hug the text, so surrounding
+ * whitespace stays outside.
+ */
+function applyStyle(text: string, style?: string[]): string {
+  if (!style?.length) return text;
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  const [, lead = "", core = "", trail = ""] = match ?? [];
+  if (!core) return text;
+
+  let styled = core;
+  if (style.includes("underline")) styled = `<u>${styled}</u>`;
+  if (style.includes("lineThrough")) styled = `~~${styled}~~`;
+  if (style.includes("italic")) styled = `*${styled}*`;
+  if (style.includes("bold")) styled = `**${styled}**`;
+  return `${lead}${styled}${trail}`;
+}
+
+function renderCodeBlock(element: FeishuPostElement): string {
+  const language = (element.language ?? "").toLowerCase();
+  const lang = language === "plain_text" ? "" : language;
+  const code = (element.text ?? "").replace(/\n$/, "");
+  // Use a fence longer than any backtick run in the code.
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${lang}\n${code}\n${fence}`;
+}
+
+function renderElement(element: FeishuPostElement, out: FeishuPostMarkdown, opts: FeishuPostOptions): string {
+  switch (element.tag) {
+    case "text": {
+      const text = element.un_escape ? unescapeHtml(element.text ?? "") : (element.text ?? "");
+      return applyStyle(text, element.style);
+    }
+    case "a": {
+      const href = element.href ?? "";
+      const label = element.text || href;
+      if (!href) return applyStyle(label, element.style);
+      return applyStyle(`[${label}](${href})`, element.style);
+    }
+    case "at": {
+      const rendered = element.user_id ? opts.renderMention?.(element.user_id) : undefined;
+      if (rendered !== undefined) return rendered;
+      const name = element.user_name || (element.user_id === "all" ? "all" : element.user_id) || "";
+      return `@${name}`;
+    }
+    case "img":
+      if (element.image_key) out.imageKeys.push(element.image_key);
+      return "";
+    case "media":
+      if (element.file_key) out.mediaKeys.push(element.file_key);
+      return "";
+    case "emotion":
+      return element.emoji_type ? `:${element.emoji_type}:` : "";
+    case "hr":
+      // Blank lines around it, or the line above would become a setext heading.
+      return "\n\n---\n\n";
+    case "code_block":
+      return `\n${renderCodeBlock(element)}\n`;
+    case "md":
+      return element.text ?? "";
+    default:
+      // Unknown tags still carry their text when they have any.
+      return element.text ?? "";
+  }
+}
+
+function renderParagraph(
+  paragraph: FeishuPostElement[],
+  out: FeishuPostMarkdown,
+  opts: FeishuPostOptions,
+): string {
+  const line = paragraph.map((element) => renderElement(element, out, opts)).join("");
+  // Block elements add their own line breaks; drop the ones at the paragraph edges.
+  return line.replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Convert post content (a JSON string or an already parsed object) to markdown.
+ * Images and videos are collected, not inlined, so the caller can download them.
+ */
+export function convertFeishuPostToMarkdown(
+  content: string | unknown,
+  opts: FeishuPostOptions = {},
+): FeishuPostMarkdown {
+  const out: FeishuPostMarkdown = { markdown: "", imageKeys: [], mediaKeys: [] };
+  const parsed = typeof content === "string" ? JSON.parse(content) : content;
+  const body = resolveFeishuPostBody(parsed);
+  if (!body) return out;
+
+  const blocks: string[] = [];
+  const title = body.title?.trim();
+  if (title) blocks.push(`# ${title}`, "");
+
+  for (const paragraph of body.content ?? []) {
+    if (!Array.isArray(paragraph)) continue;
+    const line = renderParagraph(paragraph, out, opts);
+    blocks.push(...(line === "---" ? ["", line, ""] : [line]));
+  }
+
+  out.markdown = blocks.join("\n").trim();
+  return out;
+}
@@ -0,0 +1,162 @@
+export type ChatQueueOverflow = "drop" | "merge";
+
+export type ChatQueueStats = {
+  active: number;
+  pending: number;
+  chats: number;
+  maxChatDepth: number;
+  dropped: number;
+  merged: number;
+};
+
+export type ChatQueue<T> = {
+  /** Queue an item behind earlier items for the same chat. */
+  enqueue(chatId: string, item: T): "queued" | "merged" | "dropped";
+  stats(): ChatQueueStats;
+  /** Drop everything that hasn't started yet. Running items finish on their own. */
+  clear(): void;
+  /** Drop one chat's waiting items. */
+  clearChat(chatId: string): void;
+  /**
+   * Rewrite waiting items of a chat: `fn` returns the item (unchanged or replaced), or null
+   * to drop it. Returns how many items were replaced or dropped.
+   */
+  update(chatId: string, fn: (item: T) => T | null): number;
+};
+
+type ChatState<T> = {
+  items: T[];
+  running: boolean;
+};
+
+/**
+ * Per-chat FIFO: items for one chat run strictly one after another, different chats run
+ * in parallel up to `maxConcurrent`. When a chat already has `maxDepth` items waiting, the
+ * new item is merged into the last waiting one (if `merge` allows it) or dropped.
+ */
+export function createChatQueue<T>(params: {
+  maxConcurrent: number;
+  maxDepth: number;
+  overflow: ChatQueueOverflow;
+  run: (item: T) => Promise<void>;
+  /** Combine two waiting items; return null when they can't be merged. */
+  merge?: (previous: T, next: T) => T | null;
+  onError?: (err: unknown) => void;
+  onChange?: (stats: ChatQueueStats) => void;
+}): ChatQueue<T> {
+  const chats = new Map<string, ChatState<T>>();
+  // Chats with waiting items and nothing running, in the order they became ready.
+  const ready: string[] = [];
+  let active = 0;
+  let dropped = 0;
+  let merged = 0;
+
+  const stats = (): ChatQueueStats => {
+    let pending = 0;
+    let maxChatDepth = 0;
+    for (const state of chats.values()) {
+      pending += state.items.length;
+      maxChatDepth = Math.max(maxChatDepth, state.items.length);
+    }
+    return { active, pending, chats: chats.size, maxChatDepth, dropped, merged };
+  };
+
+  const notify = () => params.onChange?.(stats());
+
+  const pump = () => {
+    while (active < params.maxConcurrent && ready.length > 0) {
+      const chatId = ready.shift()!;
+      const state = chats.get(chatId);
+      const item = state?.items.shift();
+      if (!state || item === undefined) continue;
+
+      state.running = true;
+      active += 1;
+      void params
+        .run(item)
+        .catch((err) => params.onError?.(err))
+        .finally(() => {
+          active -= 1;
+          state.running = false;
+          if (state.items.length > 0) {
+            ready.push(chatId);
+          } else if (chats.get(chatId) === state) {
+            chats.delete(chatId);
+          }
+          pump();
+          notify();
+        });
+    }
+  };
+
+  return {
+    enqueue: (chatId, item) => {
+      let state = chats.get(chatId);
+      if (!state) {
+        state = { items: [], running: false };
+        chats.set(chatId, state);
+      }
+
+      if (state.items.length >= params.maxDepth) {
+        const last = state.items[state.items.length - 1];
+        const combined =
+          params.overflow === "merge" && last !== undefined ? (params.merge?.(last, item) ?? null) : null;
+        if (combined === null) {
+          dropped += 1;
+          notify();
+          return "dropped";
+        }
+        state.items[state.items.length - 1] = combined;
+        merged += 1;
+        notify();
+        return "merged";
+      }
+
+      state.items.push(item);
+      if (!state.running && !ready.includes(chatId)) {
+        ready.push(chatId);
+      }
+      pump();
+      notify();
+      return "queued";
+    },
+    stats,
+    clear: () => {
+      ready.length = 0;
+      for (const [chatId, state] of chats) {
+        state.items.length = 0;
+        if (!state.running) chats.delete(chatId);
+      }
+      notify();
+    },
+    clearChat: (chatId) => {
+      const state = chats.get(chatId);
+      if (!state) return;
+      state.items.length = 0;
+      const readyIndex = ready.indexOf(chatId);
+      if (readyIndex >= 0) ready.splice(readyIndex, 1);
+      if (!state.running) chats.delete(chatId);
+      notify();
+    },
+    update: (chatId, fn) => {
+      const state = chats.get(chatId);
+      if (!state) return 0;
+      let changed = 0;
+      const items: T[] = [];
+      for (const item of state.items) {
+        const next = fn(item);
+        if (next !== item) changed += 1;
+        if (next !== null) items.push(next);
+      }
+      if (changed === 0) return 0;
+      state.items = items;
+      if (state.items.length === 0 && !state.running) {
+        chats.delete(chatId);
+        const readyIndex = ready.indexOf(chatId);
+        if (readyIndex >= 0) ready.splice(readyIndex, 1);
+      }
+      notify();
+      return changed;
+    },
+  };
+}
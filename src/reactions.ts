@@ -1,6 +1,6 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccountConfig } from "./accounts.js";
 
 export type FeishuReaction = {
   reactionId: string;
@@ -16,15 +16,12 @@ export type FeishuReaction = {
  */
 export async function addReactionFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   emojiType: string;
 }): Promise<{ reactionId: string }> {
-  const { cfg, messageId, emojiType } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, emojiType } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   const response = (await client.im.messageReaction.create({
@@ -57,15 +54,12 @@ export async function addReactionFeishu(params: {
  */
 export async function removeReactionFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   reactionId: string;
 }): Promise<void> {
-  const { cfg, messageId, reactionId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, reactionId } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   const response = (await client.im.messageReaction.delete({
@@ -85,15 +79,12 @@ export async function removeReactionFeishu(params: {
  */
 export async function listReactionsFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   emojiType?: string;
 }): Promise<FeishuReaction[]> {
-  const { cfg, messageId, emojiType } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, emojiType } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   const response = (await client.im.messageReaction.list({
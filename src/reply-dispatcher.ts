@@ -7,8 +7,16 @@ import {
   type ReplyPayload,
 } from "openclaw/plugin-sdk";
 import { getFeishuRuntime } from "./runtime.js";
-import { sendMessageFeishu, sendMarkdownCardFeishu, sendCardFeishu, updateCardFeishu, createSimpleTextCard } from "./send.js";
-import type { FeishuConfig } from "./types.js";
+import {
+  sendMessageFeishu,
+  sendMarkdownCardFeishu,
+  sendCardFeishu,
+  updateCardFeishu,
+  deleteMessageFeishu,
+  buildMarkdownCard,
+  createSimpleTextCard,
+} from "./send.js";
+import { resolveFeishuAccount } from "./accounts.js";
 import {
   addTypingIndicator,
   removeTypingIndicator,
@@ -34,6 +42,8 @@ const DELIVERED_KEYS_MAX = 100;
 
 class FeishuStream {
   private messageIds: string[] = [];
+  // Every card this stream posted, including ones from segments already rotated out.
+  private postedMessageIds: string[] = [];
   private segments: string[] = [];
   private finalizedLength = 0;
   private lastContent = "";
@@ -46,8 +56,10 @@ class FeishuStream {
   constructor(
     private ctx: {
       cfg: ClawdbotConfig;
+      accountId?: string;
       chatId: string;
       replyToMessageId?: string;
+      replyInThread?: boolean;
       runtime: RuntimeEnv;
     },
     private opts: {
@@ -104,6 +116,17 @@ class FeishuStream {
     await this.enqueueUpdate(() => this.applyUpdate(finalContent, true));
   }
 
+  /**
+   * Stop streaming and return the ids of every card posted so far.
+   * Waits for in-flight sends so none are missed.
+   */
+  async abort(): Promise<string[]> {
+    this.clearPending();
+    this.isFinalized = true;
+    await this.updateChain;
+    return [...this.postedMessageIds];
+  }
+
   getMessageId(): string | null {
     if (!this.messageIds.length) return null;
     return this.messageIds[this.messageIds.length - 1] ?? null;
@@ -337,10 +360,13 @@ class FeishuStream {
       const card = createSimpleTextCard(content, streaming);
       const result = await sendCardFeishu({
         cfg: this.ctx.cfg,
+        accountId: this.ctx.accountId,
         to: this.ctx.chatId,
         card,
         replyToMessageId: this.ctx.replyToMessageId,
+        replyInThread: this.ctx.replyInThread,
       });
+      this.postedMessageIds.push(result.messageId);
       return result.messageId;
     } catch (err) {
       this.ctx.runtime.error?.(`feishu stream card create failed: ${String(err)}`);
@@ -359,6 +385,7 @@ class FeishuStream {
       const card = createSimpleTextCard(content, streaming);
       await updateCardFeishu({
         cfg: this.ctx.cfg,
+        accountId: this.ctx.accountId,
         messageId,
         card,
       });
@@ -377,15 +404,25 @@ class FeishuStream {
 
 export type CreateFeishuReplyDispatcherParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   agentId: string;
   runtime: RuntimeEnv;
   chatId: string;
   replyToMessageId?: string;
+  /** Keep replies inside the triggering message's thread (threads and topic-mode groups). */
+  replyInThread?: boolean;
+  /** Aborted when the triggering message is recalled; cancels the run and removes its output. */
+  abortSignal?: AbortSignal;
+  /**
+   * Card to rewrite with the first reply instead of posting a new message (card actions).
+   * Streaming is disabled so the card only changes once; overflow chunks are sent as replies.
+   */
+  updateCardMessageId?: string;
 };
 
 export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherParams) {
   const core = getFeishuRuntime();
-  const { cfg, agentId, chatId, replyToMessageId } = params;
+  const { cfg, accountId, agentId, chatId, replyToMessageId, replyInThread, abortSignal, updateCardMessageId } = params;
 
   const prefixContext = createReplyPrefixContext({
     cfg,
@@ -400,6 +437,9 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
   let currentStream: FeishuStream | null = null;
   // Prevent duplicate delivery of identical payloads
   const deliveredKeys = new Set<string>();
+  // Messages delivered outside a stream, so a cancelled run can take them back
+  const sentMessageIds: string[] = [];
+  let cardUpdated = false;
 
   const typingCallbacks = createTypingCallbacks({
     start: async () => {
@@ -409,12 +449,12 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
       if (!replyToMessageId) return;
       // Skip if already showing typing indicator (avoid repeated API calls)
       if (typingState) return;
-      typingState = await addTypingIndicator({ cfg, messageId: replyToMessageId });
+      typingState = await addTypingIndicator({ cfg, accountId, messageId: replyToMessageId });
       params.runtime.log?.(`feishu: added typing indicator reaction`);
     },
     stop: async () => {
       if (!typingState) return;
-      await removeTypingIndicator({ cfg, state: typingState });
+      await removeTypingIndicator({ cfg, accountId, state: typingState });
       typingState = null;
       params.runtime.log?.(`feishu: removed typing indicator reaction`);
     },
@@ -441,10 +481,11 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
     channel: "feishu",
     defaultLimit: 4000,
   });
-  const chunkMode = core.channel.text.resolveChunkMode(cfg, "feishu");
+  const chunkMode = core.channel.text.resolveChunkMode(cfg, "feishu", accountId);
   const tableMode = core.channel.text.resolveMarkdownTableMode({
     cfg,
     channel: "feishu",
+    accountId,
   });
 
   const { dispatcher, replyOptions, markDispatchIdle } =
@@ -455,6 +496,7 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
       onReplyStart: typingCallbacks.onReplyStart,
       deliver: async (payload: ReplyPayload) => {
         params.runtime.log?.(`feishu deliver called: text=${payload.text?.slice(0, 100)}`);
+        if (abortSignal?.aborted) return;
         const text = payload.text ?? "";
         if (!text.trim()) {
           return;
@@ -479,24 +521,47 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
         deliveredKeys.add(text);
 
         // Check render mode: auto (default), raw, or card
-        const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-        const renderMode = feishuCfg?.renderMode ?? "auto";
+        const feishuCfg = resolveFeishuAccount({ cfg, accountId }).config;
+        const renderMode = feishuCfg.renderMode ?? "auto";
 
         // Determine if we should use card for this message
         const useCard =
-          renderMode === "card" || (renderMode === "auto" && shouldUseCard(text));
+          renderMode === "card" ||
+          (renderMode === "auto" && shouldUseCard(text)) ||
+          Boolean(updateCardMessageId && !cardUpdated);
 
         if (useCard) {
           // Card mode: send as interactive card with markdown rendering
           const chunks = core.channel.text.chunkTextWithMode(text, textChunkLimit, chunkMode);
+          if (updateCardMessageId && !cardUpdated) {
+            cardUpdated = true;
+            try {
+              await updateCardFeishu({
+                cfg,
+                accountId,
+                messageId: updateCardMessageId,
+                card: buildMarkdownCard(chunks[0] ?? text),
+              });
+              chunks.shift();
+            } catch (err) {
+              // Cards from other apps or without update_multi can't be patched; reply instead.
+              params.runtime.log?.(`feishu deliver: card ${updateCardMessageId} update failed: ${String(err)}`);
+            }
+          }
           params.runtime.log?.(`feishu deliver: sending ${chunks.length} card chunks to ${chatId}`);
           for (const chunk of chunks) {
-            await sendMarkdownCardFeishu({
+            const result = await sendMarkdownCardFeishu({
               cfg,
+              accountId,
               to: chatId,
               text: chunk,
               replyToMessageId,
+              replyInThread,
             });
+            sentMessageIds.push(result.messageId);
+            // A send that was in flight when the run got cancelled.
+            if (cancelled) await removeMessages(sentMessageIds.splice(0));
+            if (abortSignal?.aborted) return;
           }
         } else {
           // Raw mode: send as plain text with table conversion
@@ -504,12 +569,18 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
           const chunks = core.channel.text.chunkTextWithMode(converted, textChunkLimit, chunkMode);
           params.runtime.log?.(`feishu deliver: sending ${chunks.length} text chunks to ${chatId}`);
           for (const chunk of chunks) {
-            await sendMessageFeishu({
+            const result = await sendMessageFeishu({
               cfg,
+              accountId,
               to: chatId,
               text: chunk,
               replyToMessageId,
+              replyInThread,
             });
+            sentMessageIds.push(result.messageId);
+            // A send that was in flight when the run got cancelled.
+            if (cancelled) await removeMessages(sentMessageIds.splice(0));
+            if (abortSignal?.aborted) return;
           }
         }
       },
@@ -520,21 +591,46 @@ export function createFeishuReplyDispatcher(params: CreateFeishuReplyDispatcherP
       onIdle: typingCallbacks.onIdle,
     });
 
+  const removeMessages = async (ids: string[]) => {
+    for (const messageId of ids) {
+      try {
+        await deleteMessageFeishu({ cfg, accountId, messageId });
+      } catch (err) {
+        params.runtime.log?.(`feishu: failed to delete reply ${messageId}: ${String(err)}`);
+      }
+    }
+  };
+
+  let cancelled = false;
+  const cancel = async () => {
+    await typingCallbacks.onIdle?.();
+    const streamIds = currentStream ? await currentStream.abort() : [];
+    currentStream = null;
+    const ids = [...streamIds, ...sentMessageIds.splice(0)];
+    cancelled = true;
+    await removeMessages(ids);
+    params.runtime.log?.(`feishu: reply cancelled, removed ${ids.length} message(s)`);
+  };
+  abortSignal?.addEventListener("abort", () => void cancel(), { once: true });
+
   return {
     dispatcher,
     replyOptions: {
       ...replyOptions,
+      abortSignal,
       onModelSelected: prefixContext.onModelSelected,
       onPartialReply: async (payload: ReplyPayload) => {
         const text = payload.text ?? "";
-        if (!text) return;
+        if (!text || abortSignal?.aborted || updateCardMessageId) return;
 
         if (!currentStream) {
           currentStream = new FeishuStream(
             {
               cfg,
+              accountId,
               chatId,
               replyToMessageId,
+              replyInThread,
               runtime: params.runtime,
             },
             {
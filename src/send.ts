@@ -1,14 +1,18 @@
 import type { ClawdbotConfig } from "openclaw/plugin-sdk";
-import type { FeishuConfig, FeishuSendResult } from "./types.js";
+import type { FeishuSendResult } from "./types.js";
 import { createFeishuClient } from "./client.js";
+import { resolveFeishuAccountConfig } from "./accounts.js";
 import { resolveReceiveIdType, normalizeFeishuTarget } from "./targets.js";
 import { getFeishuRuntime } from "./runtime.js";
+import { flattenFeishuCard } from "./card-content.js";
 
 export type FeishuMessageInfo = {
   messageId: string;
   chatId: string;
   senderId?: string;
   senderOpenId?: string;
+  /** "user" or "app" (bot) */
+  senderType?: string;
   content: string;
   contentType: string;
   createTime?: number;
@@ -20,14 +24,11 @@ export type FeishuMessageInfo = {
  */
 export async function getMessageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
 }): Promise<FeishuMessageInfo | null> {
-  const { cfg, messageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
 
   try {
@@ -67,6 +68,8 @@ export async function getMessageFeishu(params: {
       const parsed = JSON.parse(content);
       if (item.msg_type === "text" && parsed.text) {
         content = parsed.text;
+      } else if (item.msg_type === "interactive") {
+        content = flattenFeishuCard(parsed) || "[卡片消息]";
       }
     } catch {
       // Keep raw content if parsing fails
@@ -77,6 +80,7 @@ export async function getMessageFeishu(params: {
       chatId: item.chat_id ?? "",
       senderId: item.sender?.id,
       senderOpenId: item.sender?.id_type === "open_id" ? item.sender?.id : undefined,
+      senderType: item.sender?.sender_type,
       content,
       contentType: item.msg_type ?? "text",
       createTime: item.create_time ? parseInt(item.create_time, 10) : undefined,
@@ -86,6 +90,60 @@ export async function getMessageFeishu(params: {
   }
 }
 
+export type FeishuMessageItem = {
+  messageId: string;
+  /** Set on the children of a merge_forward message; points at the forward they belong to. */
+  upperMessageId?: string;
+  /** The message this one replies to. */
+  parentId?: string;
+  senderId?: string;
+  senderIdType?: string;
+  senderType?: string;
+  /** Raw JSON content, as sent. */
+  content: string;
+  contentType: string;
+  /** Mention keys (`@_user_1`) used in `content`. */
+  mentions?: Array<{ key: string; id: string; name: string }>;
+  createTime?: number;
+  deleted?: boolean;
+};
+
+/**
+ * Get every item `im.message.get` returns for a message. For a merge_forward message this
+ * is the forward itself followed by the messages it contains.
+ */
+export async function getMessageItemsFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  messageId: string;
+}): Promise<FeishuMessageItem[]> {
+  const { cfg, accountId, messageId } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
+  const client = createFeishuClient(feishuCfg);
+
+  const response = await client.im.message.get({
+    path: { message_id: messageId },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu get message failed: ${response.msg || `code ${response.code}`}`);
+  }
+
+  return (response.data?.items ?? []).map((item) => ({
+    messageId: item.message_id ?? "",
+    upperMessageId: item.upper_message_id || undefined,
+    parentId: item.parent_id || undefined,
+    senderId: item.sender?.id,
+    senderIdType: item.sender?.id_type,
+    senderType: item.sender?.sender_type,
+    content: item.body?.content ?? "",
+    contentType: item.msg_type ?? "text",
+    mentions: item.mentions?.map(({ key, id, name }) => ({ key, id, name })),
+    createTime: item.create_time ? parseInt(item.create_time, 10) : undefined,
+    deleted: item.deleted,
+  }));
+}
+
 export type FeishuHistoryMessage = {
   messageId: string;
   senderId: string;
@@ -112,6 +170,7 @@ export type ListMessagesResult = {
  */
 export async function listMessagesFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   chatId: string;
   count?: number;
   startTime?: string;
@@ -119,12 +178,8 @@ export async function listMessagesFeishu(params: {
   pageToken?: string;
   sortType?: "ByCreateTimeAsc" | "ByCreateTimeDesc";
 }): Promise<ListMessagesResult> {
-  const { cfg, chatId, count = 200, startTime, endTime, pageToken, sortType = "ByCreateTimeDesc" } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, chatId, count = 200, startTime, endTime, pageToken, sortType = "ByCreateTimeDesc" } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const messages: FeishuHistoryMessage[] = [];
   let currentPageToken = pageToken;
@@ -171,7 +226,7 @@ export async function listMessagesFeishu(params: {
         } else if (item.msg_type === "sticker") {
           content = "[表情]";
         } else if (item.msg_type === "interactive") {
-          content = "[卡片消息]";
+          content = flattenFeishuCard(parsed) || "[卡片消息]";
         } else if (item.msg_type === "share_chat") {
           content = "[分享群聊]";
         } else if (item.msg_type === "share_user") {
@@ -210,18 +265,17 @@ export async function listMessagesFeishu(params: {
 
 export type SendFeishuMessageParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   text: string;
   replyToMessageId?: string;
+  /** Post the reply inside the replied-to message's thread (starting one if needed). */
+  replyInThread?: boolean;
 };
 
 export async function sendMessageFeishu(params: SendFeishuMessageParams): Promise<FeishuSendResult> {
-  const { cfg, to, text, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, text, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -232,6 +286,7 @@ export async function sendMessageFeishu(params: SendFeishuMessageParams): Promis
   const tableMode = getFeishuRuntime().channel.text.resolveMarkdownTableMode({
     cfg,
     channel: "feishu",
+    accountId,
   });
   const messageText = getFeishuRuntime().channel.text.convertMarkdownTables(text ?? "", tableMode);
 
@@ -243,6 +298,7 @@ export async function sendMessageFeishu(params: SendFeishuMessageParams): Promis
       data: {
         content,
         msg_type: "text",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -277,18 +333,16 @@ export async function sendMessageFeishu(params: SendFeishuMessageParams): Promis
 
 export type SendFeishuCardParams = {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   card: Record<string, unknown>;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 };
 
 export async function sendCardFeishu(params: SendFeishuCardParams): Promise<FeishuSendResult> {
-  const { cfg, to, card, replyToMessageId } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, to, card, replyToMessageId, replyInThread } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const receiveId = normalizeFeishuTarget(to);
   if (!receiveId) {
@@ -304,6 +358,7 @@ export async function sendCardFeishu(params: SendFeishuCardParams): Promise<Feis
       data: {
         content,
         msg_type: "interactive",
+        reply_in_thread: replyInThread,
       },
     });
 
@@ -338,15 +393,12 @@ export async function sendCardFeishu(params: SendFeishuCardParams): Promise<Feis
 
 export async function updateCardFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   card: Record<string, unknown>;
 }): Promise<void> {
-  const { cfg, messageId, card } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, card } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const content = JSON.stringify(card);
 
@@ -360,6 +412,27 @@ export async function updateCardFeishu(params: {
   }
 }
 
+/**
+ * Recall (delete) a message the bot sent.
+ */
+export async function deleteMessageFeishu(params: {
+  cfg: ClawdbotConfig;
+  accountId?: string;
+  messageId: string;
+}): Promise<void> {
+  const { cfg, accountId, messageId } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
+  const client = createFeishuClient(feishuCfg);
+
+  const response = await client.im.message.delete({
+    path: { message_id: messageId },
+  });
+
+  if (response.code !== 0) {
+    throw new Error(`Feishu message delete failed: ${response.msg || `code ${response.code}`}`);
+  }
+}
+
 /**
  * Build a Feishu interactive card with markdown content.
  * Cards render markdown properly (code blocks, tables, links, etc.)
@@ -384,13 +457,15 @@ export function buildMarkdownCard(text: string): Record<string, unknown> {
  */
 export async function sendMarkdownCardFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   to: string;
   text: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
 }): Promise<FeishuSendResult> {
-  const { cfg, to, text, replyToMessageId } = params;
+  const { cfg, accountId, to, text, replyToMessageId, replyInThread } = params;
   const card = buildMarkdownCard(text);
-  return sendCardFeishu({ cfg, to, card, replyToMessageId });
+  return sendCardFeishu({ cfg, accountId, to, card, replyToMessageId, replyInThread });
 }
 
 /**
@@ -399,19 +474,17 @@ export async function sendMarkdownCardFeishu(params: {
  */
 export async function editMessageFeishu(params: {
   cfg: ClawdbotConfig;
+  accountId?: string;
   messageId: string;
   text: string;
 }): Promise<void> {
-  const { cfg, messageId, text } = params;
-  const feishuCfg = cfg.channels?.feishu as FeishuConfig | undefined;
-  if (!feishuCfg) {
-    throw new Error("Feishu channel not configured");
-  }
-
+  const { cfg, accountId, messageId, text } = params;
+  const feishuCfg = resolveFeishuAccountConfig({ cfg, accountId });
   const client = createFeishuClient(feishuCfg);
   const tableMode = getFeishuRuntime().channel.text.resolveMarkdownTableMode({
     cfg,
     channel: "feishu",
+    accountId,
   });
   const messageText = getFeishuRuntime().channel.text.convertMarkdownTables(text ?? "", tableMode);
   const content = JSON.stringify({ text: messageText });
@@ -1,21 +1,41 @@
-import type { FeishuConfigSchema, FeishuGroupSchema, z } from "./config-schema.js";
+import type {
+  FeishuAccountConfigSchema,
+  FeishuConfigSchema,
+  FeishuGroupSchema,
+  z,
+} from "./config-schema.js";
 
 export type FeishuConfig = z.infer<typeof FeishuConfigSchema>;
+export type FeishuAccountConfig = z.infer<typeof FeishuAccountConfigSchema>;
 export type FeishuGroupConfig = z.infer<typeof FeishuGroupSchema>;
+export type FeishuDmConfig = NonNullable<NonNullable<FeishuConfig["dms"]>[string]>;
 
 export type FeishuDomain = "feishu" | "lark";
 export type FeishuConnectionMode = "websocket" | "webhook";
 
 export type ResolvedFeishuAccount = {
   accountId: string;
+  name?: string;
   enabled: boolean;
   configured: boolean;
   appId?: string;
   domain: FeishuDomain;
+  /** Top-level channel config merged with the account's overrides. */
+  config: FeishuConfig;
 };
 
 export type FeishuIdType = "open_id" | "user_id" | "union_id" | "chat_id";
 
+export type FeishuMention = {
+  /** Placeholder in the message text, e.g. `@_user_1`. */
+  key: string;
+  /** open_id, or user_id when the open_id is missing. */
+  id: string;
+  name: string;
+  /** True when this mention is the bot itself. */
+  isBot: boolean;
+};
+
 export type FeishuMessageContext = {
   chatId: string;
   messageId: string;
@@ -24,8 +44,11 @@ export type FeishuMessageContext = {
   senderName?: string;
   chatType: "p2p" | "group";
   mentionedBot: boolean;
+  mentions: FeishuMention[];
   rootId?: string;
   parentId?: string;
+  /** Set when the message was posted in a thread, including every post in a topic-mode group. */
+  threadId?: string;
   content: string;
   contentType: string;
 };
@@ -0,0 +1,253 @@
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import * as Lark from "@larksuiteoapi/node-sdk";
+import type { FeishuWebhookRejectReason, FeishuWebhookVerifier } from "./client.js";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type FeishuWebhookTarget = {
+  accountId: string;
+  path: string;
+  encryptKey?: string;
+  verificationToken?: string;
+  /** Signature/replay checks; null when no encryptKey is configured (Feishu doesn't sign then). */
+  verifier?: FeishuWebhookVerifier | null;
+  /** Counts rejections the verifier doesn't see: token mismatches and decrypt failures. */
+  recordReject?: (reason: FeishuWebhookRejectReason) => void;
+  eventDispatcher: Lark.EventDispatcher;
+  log: (msg: string) => void;
+  error: (msg: string) => void;
+};
+
+type WebhookServer = {
+  server: http.Server;
+  targets: Map<string, FeishuWebhookTarget>;
+};
+
+// One HTTP server per port; accounts sharing a port are routed by path. The entry is stored
+// while the server is still binding, so accounts starting together on a port share it.
+const webhookServers = new Map<number, Promise<WebhookServer>>();
+
+export function normalizeWebhookPath(raw?: string): string {
+  const trimmed = raw?.trim() || "/feishu/events";
+  const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+  if (withSlash.length > 1 && withSlash.endsWith("/")) {
+    return withSlash.slice(0, -1);
+  }
+  return withSlash;
+}
+
+function readRequestBody(
+  req: IncomingMessage,
+  maxBytes: number,
+): Promise<{ ok: true; raw: string } | { ok: false; error: string }> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  return new Promise((resolve) => {
+    req.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        resolve({ ok: false, error: "payload too large" });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve({ ok: true, raw: Buffer.concat(chunks).toString("utf8") }));
+    req.on("error", (err) => resolve({ ok: false, error: String(err) }));
+  });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Parse the request body and decrypt `{ encrypt }` envelopes with the app's encryptKey.
+ */
+export function decodeFeishuWebhookPayload(params: {
+  raw: string;
+  encryptKey?: string;
+}):
+  | { ok: true; payload: Record<string, any> }
+  | { ok: false; error: string; reason?: FeishuWebhookRejectReason } {
+  let parsed: Record<string, any>;
+  try {
+    parsed = JSON.parse(params.raw);
+  } catch {
+    return { ok: false, error: "invalid json" };
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return { ok: false, error: "invalid payload" };
+  }
+
+  if (typeof parsed.encrypt !== "string") {
+    return { ok: true, payload: parsed };
+  }
+
+  if (!params.encryptKey) {
+    return { ok: false, error: "encrypted payload but encryptKey not configured", reason: "decrypt_failed" };
+  }
+  try {
+    const decrypted = new Lark.AESCipher(params.encryptKey).decrypt(parsed.encrypt);
+    return { ok: true, payload: JSON.parse(decrypted) };
+  } catch {
+    return { ok: false, error: "decrypt failed", reason: "decrypt_failed" };
+  }
+}
+
+/**
+ * Verification token carried by the payload: `header.token` for v2 events,
+ * top-level `token` for v1 events and url_verification.
+ */
+function extractPayloadToken(payload: Record<string, any>): string | undefined {
+  const token = payload.header?.token ?? payload.token;
+  return typeof token === "string" ? token : undefined;
+}
+
+async function handleFeishuWebhookRequest(
+  target: FeishuWebhookTarget,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.end("Method Not Allowed");
+    return;
+  }
+
+  const body = await readRequestBody(req, MAX_BODY_BYTES);
+  if ("error" in body) {
+    sendJson(res, body.error === "payload too large" ? 413 : 400, { error: body.error });
+    return;
+  }
+
+  const decoded = decodeFeishuWebhookPayload({ raw: body.raw, encryptKey: target.encryptKey });
+  if ("error" in decoded) {
+    if (decoded.reason) target.recordReject?.(decoded.reason);
+    target.error(`feishu[${target.accountId}]: rejected webhook request: ${decoded.error}`);
+    sendJson(res, 400, { error: decoded.error });
+    return;
+  }
+  const payload = decoded.payload;
+
+  // The url_verification handshake is unsigned; every event delivery must carry a valid signature.
+  if (target.verifier && payload.type !== "url_verification") {
+    const verified = target.verifier.verify({ headers: req.headers, rawBody: body.raw });
+    if ("reason" in verified) {
+      target.error(
+        `feishu[${target.accountId}]: rejected webhook request (${verified.reason}): ${verified.message}`,
+      );
+      sendJson(res, 401, { error: verified.reason });
+      return;
+    }
+  }
+
+  if (target.verificationToken && extractPayloadToken(payload) !== target.verificationToken) {
+    target.recordReject?.("invalid_token");
+    target.error(`feishu[${target.accountId}]: rejected webhook request: verification token mismatch`);
+    sendJson(res, 401, { error: "invalid verification token" });
+    return;
+  }
+
+  if (payload.type === "url_verification") {
+    target.log(`feishu[${target.accountId}]: answered webhook url_verification challenge`);
+    sendJson(res, 200, { challenge: payload.challenge });
+    return;
+  }
+
+  // Acknowledge immediately: Feishu retries deliveries that are not answered within 3s,
+  // while agent runs routinely take longer than that.
+  sendJson(res, 200, {});
+
+  try {
+    // The payload is already decrypted and verified above.
+    await target.eventDispatcher.invoke(payload, { needCheck: false });
+  } catch (err) {
+    target.error(`feishu[${target.accountId}]: webhook event handler failed: ${String(err)}`);
+  }
+}
+
+function createWebhookServer(port: number): WebhookServer {
+  const targets = new Map<string, FeishuWebhookTarget>();
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const target = targets.get(normalizeWebhookPath(url.pathname));
+    if (!target) {
+      res.statusCode = 404;
+      res.end("Not Found");
+      return;
+    }
+    void handleFeishuWebhookRequest(target, req, res).catch((err) => {
+      target.error(`feishu[${target.accountId}]: webhook request failed: ${String(err)}`);
+      if (!res.headersSent) sendJson(res, 500, { error: "internal error" });
+    });
+  });
+  return { server, targets };
+}
+
+function listenWebhookServer(port: number): Promise<WebhookServer> {
+  const created = createWebhookServer(port);
+  return new Promise((resolve, reject) => {
+    created.server.once("error", reject);
+    created.server.listen(port, () => {
+      created.server.off("error", reject);
+      resolve(created);
+    });
+  });
+}
+
+function closeWebhookServer(entry: WebhookServer): Promise<void> {
+  return new Promise((resolve) => {
+    entry.server.close(() => resolve());
+    entry.server.closeAllConnections?.();
+  });
+}
+
+/**
+ * Register an account's webhook endpoint, starting the HTTP server for the port if needed.
+ * Resolves once the server is listening; the returned function unregisters the endpoint
+ * and shuts the server down when it was the last one on that port.
+ */
+export async function startFeishuWebhookTarget(params: {
+  port: number;
+  target: FeishuWebhookTarget;
+}): Promise<() => Promise<void>> {
+  const { port } = params;
+  const target = { ...params.target, path: normalizeWebhookPath(params.target.path) };
+
+  const pending = webhookServers.get(port) ?? listenWebhookServer(port);
+  if (!webhookServers.has(port)) {
+    webhookServers.set(port, pending);
+    // A failed bind must not block later attempts on the port.
+    pending.catch(() => {
+      if (webhookServers.get(port) === pending) webhookServers.delete(port);
+    });
+  }
+  const entry = await pending;
+
+  // Shut the server down once no endpoint is left on it.
+  const release = async () => {
+    if (entry.targets.size > 0 || webhookServers.get(port) !== pending) return;
+    webhookServers.delete(port);
+    await closeWebhookServer(entry);
+  };
+
+  const existing = entry.targets.get(target.path);
+  if (existing && existing.accountId !== target.accountId) {
+    await release();
+    throw new Error(
+      `Feishu webhook path ${target.path} on port ${port} is already used by account "${existing.accountId}"`,
+    );
+  }
+  entry.targets.set(target.path, target);
+
+  return async () => {
+    if (entry.targets.get(target.path) === target) {
+      entry.targets.delete(target.path);
+    }
+    await release();
+  };
+}